@@ -0,0 +1,294 @@
+'use client';
+
+import { useState } from 'react';
+import { CategoryRule, ProcessedMonthData, ProgramData } from '../types';
+import { CATEGORY_RULE_MATCH_LABELS, WEEKDAY_LABELS, categoryRuleError, previewCategoryRule } from '../util/categoryRules';
+
+interface CategoryRulesPanelProps {
+  rules: CategoryRule[];
+  months: ProcessedMonthData[];
+  onChange: (rules: CategoryRule[]) => void;
+}
+
+// Programs listed in a preview before it is cut off
+const PREVIEW_LIMIT = 10;
+
+// Days in the order of the week, starting on Monday
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const EMPTY_RULE: CategoryRule = {
+  id: '',
+  label: '',
+  matchType: 'keyword',
+  pattern: '',
+  fromTime: '',
+  toTime: '',
+  weekdays: [],
+  assign: {},
+  enabled: true
+};
+
+/**
+ * Short description of the conditions of a rule, e.g. "film, thriller · 20:00-23:00 · za, zo"
+ */
+function describeConditions(rule: CategoryRule): string {
+  const parts = [rule.pattern.trim() ? rule.pattern : 'alle titels'];
+  if (rule.fromTime || rule.toTime) {
+    parts.push(`${rule.fromTime || '00:00'}-${rule.toTime || '24:00'}`);
+  }
+  if (rule.weekdays && rule.weekdays.length > 0) {
+    parts.push(WEEKDAY_ORDER.filter(day => rule.weekdays!.includes(day)).map(day => WEEKDAY_LABELS[day]).join(', '));
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * What a rule assigns, e.g. "Film · Thriller · herhaling"
+ */
+function describeAssignment(rule: CategoryRule): string {
+  const { category, genre, isRepeat } = rule.assign;
+  const parts = [category, genre].filter(Boolean) as string[];
+  if (isRepeat !== undefined) parts.push(isRepeat ? 'herhaling' : 'geen herhaling');
+  return parts.join(' · ');
+}
+
+function PreviewList({ programs }: { programs: ProgramData[] }) {
+  if (programs.length === 0) {
+    return <p className="text-xs text-gray-500">Geen opgeslagen programma&apos;s.</p>;
+  }
+  return (
+    <ul className="text-xs text-gray-700">
+      {programs.slice(0, PREVIEW_LIMIT).map((program, index) => (
+        <li key={`${program.id || program.title}-${index}`}>
+          {program.day} {program.startTime} – {program.title}
+        </li>
+      ))}
+      {programs.length > PREVIEW_LIMIT && (
+        <li className="text-gray-500">en nog {programs.length - PREVIEW_LIMIT} programma&apos;s</li>
+      )}
+    </ul>
+  );
+}
+
+export default function CategoryRulesPanel({ rules, months, onChange }: CategoryRulesPanelProps) {
+  const [draft, setDraft] = useState<CategoryRule>(EMPTY_RULE);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [previewRuleId, setPreviewRuleId] = useState<string | null>(null);
+
+  const updateRule = (id: string, changes: Partial<CategoryRule>) => {
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+
+  // Later rules override earlier ones, so the order can be changed
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = rules.slice();
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const toggleDraftWeekday = (day: number) => {
+    const weekdays = draft.weekdays || [];
+    setDraft({ ...draft, weekdays: weekdays.includes(day) ? weekdays.filter(existing => existing !== day) : weekdays.concat(day) });
+  };
+
+  const handleAddRule = () => {
+    const rule: CategoryRule = {
+      ...draft,
+      id: `regel-${Date.now()}`,
+      fromTime: draft.fromTime || undefined,
+      toTime: draft.toTime || undefined,
+      assign: {
+        category: draft.assign.category?.trim() || undefined,
+        genre: draft.assign.genre?.trim() || undefined,
+        isRepeat: draft.assign.isRepeat
+      }
+    };
+    const error = categoryRuleError(rule);
+    if (error) {
+      setDraftError(error);
+      return;
+    }
+    onChange(rules.concat(rule));
+    setDraft(EMPTY_RULE);
+    setDraftError(null);
+  };
+
+  const draftPreview = draft.pattern.trim() || draft.fromTime || draft.toTime || (draft.weekdays || []).length > 0
+    ? previewCategoryRule(months, draft)
+    : null;
+  const inputClass = 'px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]';
+
+  return (
+    <div className="mt-4 bg-white rounded-lg shadow-sm p-4">
+      <h3 className="text-sm font-medium text-[#00001F] mb-1">Categorieregels</h3>
+      <p className="text-xs text-gray-600 mb-3">
+        Programma&apos;s krijgen hun categorie, genre en herhaling uit deze regels, op titel (trefwoorden of een reguliere expressie),
+        begintijd en dag van de uitzenddag. Een regel lager in de lijst gaat voor; wat het schema zelf vermeldt, gaat altijd voor.
+        Wijzigingen gelden meteen voor alle opgeslagen programma&apos;s.
+      </p>
+
+      <table className="w-full text-xs text-left mb-3">
+        <thead>
+          <tr className="text-gray-600">
+            <th className="px-1 py-1"></th>
+            <th className="px-1 py-1 font-medium">Regel</th>
+            <th className="px-1 py-1 font-medium">Voorwaarden</th>
+            <th className="px-1 py-1 font-medium">Kent toe</th>
+            <th className="px-1 py-1 font-medium text-right">Programma&apos;s</th>
+            <th className="px-1 py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map((rule, index) => {
+            const matches = previewCategoryRule(months, rule);
+            return (
+              <tr key={rule.id} className="border-t border-gray-100 align-top">
+                <td className="px-1 py-1">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                  />
+                </td>
+                <td className="px-1 py-1">
+                  {rule.label}
+                  {previewRuleId === rule.id && (
+                    <div className="mt-1">
+                      <PreviewList programs={matches} />
+                    </div>
+                  )}
+                </td>
+                <td className="px-1 py-1 text-gray-600">
+                  <span className="text-gray-500">{CATEGORY_RULE_MATCH_LABELS[rule.matchType]}:</span>{' '}
+                  <span className={rule.matchType === 'regex' ? 'font-mono' : ''}>{describeConditions(rule)}</span>
+                </td>
+                <td className="px-1 py-1">{describeAssignment(rule)}</td>
+                <td className="px-1 py-1 text-right">
+                  <button
+                    onClick={() => setPreviewRuleId(previewRuleId === rule.id ? null : rule.id)}
+                    className="text-[#F47B25] hover:underline"
+                    type="button"
+                  >
+                    {matches.length}
+                  </button>
+                </td>
+                <td className="px-1 py-1 text-right whitespace-nowrap">
+                  <button onClick={() => moveRule(index, -1)} className="px-1 text-gray-500 hover:text-gray-800" title="Omhoog" type="button">↑</button>
+                  <button onClick={() => moveRule(index, 1)} className="px-1 text-gray-500 hover:text-gray-800" title="Omlaag" type="button">↓</button>
+                  {!rule.builtIn && (
+                    <button
+                      onClick={() => onChange(rules.filter(existing => existing.id !== rule.id))}
+                      className="ml-1 text-gray-500 hover:text-red-700"
+                      type="button"
+                    >
+                      Verwijderen
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <h4 className="text-xs font-medium text-[#00001F] mb-1">Regel toevoegen</h4>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <input
+          type="text"
+          value={draft.label}
+          onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+          placeholder="Omschrijving"
+          className={inputClass}
+        />
+        <select
+          value={draft.matchType}
+          onChange={(e) => setDraft({ ...draft, matchType: e.target.value as CategoryRule['matchType'] })}
+          className={inputClass}
+        >
+          {(Object.keys(CATEGORY_RULE_MATCH_LABELS) as CategoryRule['matchType'][]).map(matchType => (
+            <option key={matchType} value={matchType}>{CATEGORY_RULE_MATCH_LABELS[matchType]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={draft.pattern}
+          onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+          placeholder={draft.matchType === 'regex' ? 'bijv. ^(nos )?journaal' : 'bijv. journaal, nieuws'}
+          className={`${inputClass} ${draft.matchType === 'regex' ? 'font-mono' : ''}`}
+        />
+        <span className="text-xs text-gray-600">tussen</span>
+        <input
+          type="text"
+          value={draft.fromTime}
+          onChange={(e) => setDraft({ ...draft, fromTime: e.target.value })}
+          placeholder="00:00"
+          className={`${inputClass} w-16`}
+        />
+        <span className="text-xs text-gray-600">en</span>
+        <input
+          type="text"
+          value={draft.toTime}
+          onChange={(e) => setDraft({ ...draft, toTime: e.target.value })}
+          placeholder="24:00"
+          className={`${inputClass} w-16`}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+        {WEEKDAY_ORDER.map(day => (
+          <label key={day} className="inline-flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={(draft.weekdays || []).includes(day)}
+              onChange={() => toggleDraftWeekday(day)}
+            />
+            {WEEKDAY_LABELS[day]}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={draft.assign.category || ''}
+          onChange={(e) => setDraft({ ...draft, assign: { ...draft.assign, category: e.target.value } })}
+          placeholder="Categorie"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={draft.assign.genre || ''}
+          onChange={(e) => setDraft({ ...draft, assign: { ...draft.assign, genre: e.target.value } })}
+          placeholder="Genre"
+          className={inputClass}
+        />
+        <select
+          value={draft.assign.isRepeat === undefined ? '' : draft.assign.isRepeat ? 'yes' : 'no'}
+          onChange={(e) => setDraft({
+            ...draft,
+            assign: { ...draft.assign, isRepeat: e.target.value === '' ? undefined : e.target.value === 'yes' }
+          })}
+          className={inputClass}
+        >
+          <option value="">Herhaling niet wijzigen</option>
+          <option value="yes">Herhaling</option>
+          <option value="no">Geen herhaling</option>
+        </select>
+        <button
+          onClick={handleAddRule}
+          className="px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+          type="button"
+        >
+          Regel toevoegen
+        </button>
+      </div>
+      {draftError && <p className="text-xs text-red-700 mt-1">{draftError}</p>}
+      {draftPreview && (
+        <div className="mt-2 p-2 bg-gray-50 rounded-md">
+          <p className="text-xs font-medium text-gray-700 mb-1">Deze regel raakt {draftPreview.length} opgeslagen programma&apos;s</p>
+          <PreviewList programs={draftPreview} />
+        </div>
+      )}
+    </div>
+  );
+}
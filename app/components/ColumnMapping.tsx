@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { ViewerColumnDetection, ViewerColumnField, ViewerColumnMapping } from '../types';
+import { VIEWER_COLUMN_FIELDS, VIEWER_COLUMN_LABELS, REQUIRED_VIEWER_COLUMN_FIELDS } from '../util/importProfiles';
+
+interface ColumnMappingProps {
+  fileName: string;
+  detection: ViewerColumnDetection;
+  onConfirm: (mapping: ViewerColumnMapping, profileName?: string) => void;
+  onCancel: () => void;
+}
+
+export default function ColumnMapping({ fileName, detection, onConfirm, onCancel }: ColumnMappingProps) {
+  const [mapping, setMapping] = useState<ViewerColumnMapping>({ ...detection.mapping });
+  const [saveAsProfile, setSaveAsProfile] = useState(false);
+  const [profileName, setProfileName] = useState('');
+
+  const updateField = (field: ViewerColumnField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: parseInt(value, 10) }));
+  };
+
+  // Required columns must be chosen before the file can be processed
+  const isComplete = REQUIRED_VIEWER_COLUMN_FIELDS.every(field => mapping[field] >= 0);
+
+  const handleConfirm = () => {
+    if (!isComplete) return;
+    onConfirm(mapping, saveAsProfile && profileName.trim() ? profileName.trim() : undefined);
+  };
+
+  return (
+    <div className="mb-4 p-3 border border-[#F47B25] rounded-md bg-orange-50">
+      <h3 className="text-sm font-medium text-[#00001F] mb-1">Kolommen koppelen</h3>
+      <p className="text-xs text-gray-600 mb-3">
+        De kolommen in <span className="font-medium">{fileName}</span> konden niet zeker worden herkend.
+        Controleer welke kolom bij welk veld hoort.
+      </p>
+
+      <div className="space-y-2">
+        {VIEWER_COLUMN_FIELDS.map(field => (
+          <div key={field}>
+            <label htmlFor={`mapping-${field}`} className="block text-xs font-medium text-gray-700">
+              {VIEWER_COLUMN_LABELS[field]}
+              {detection.uncertainFields.includes(field) && (
+                <span className="ml-1 text-red-600">(onzeker)</span>
+              )}
+            </label>
+            <select
+              id={`mapping-${field}`}
+              value={mapping[field]}
+              onChange={(e) => updateField(field, e.target.value)}
+              className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+            >
+              <option value={-1}>
+                {REQUIRED_VIEWER_COLUMN_FIELDS.includes(field) ? '-- Kies een kolom --' : 'Niet aanwezig'}
+              </option>
+              {detection.headers.map((header, index) => (
+                <option key={index} value={index}>
+                  Kolom {index + 1}: {header || '(leeg)'}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <label className="mt-3 inline-flex items-center cursor-pointer">
+        <input
+          type="checkbox"
+          checked={saveAsProfile}
+          onChange={() => setSaveAsProfile(!saveAsProfile)}
+          className="form-checkbox h-4 w-4 text-[#F47B25] rounded focus:ring-0"
+        />
+        <span className="ml-2 text-xs text-gray-700">Opslaan als importprofiel</span>
+      </label>
+
+      {saveAsProfile && (
+        <input
+          type="text"
+          placeholder="Naam van het profiel"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          className="mt-2 w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+        />
+      )}
+
+      <div className="mt-3 flex space-x-2">
+        <button
+          onClick={handleConfirm}
+          disabled={!isComplete}
+          className="px-3 py-1 text-xs font-medium text-white bg-[#F47B25] rounded hover:bg-[#F9A65E] disabled:opacity-50"
+          type="button"
+        >
+          Toepassen
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+          type="button"
+        >
+          Overslaan
+        </button>
+      </div>
+    </div>
+  );
+}
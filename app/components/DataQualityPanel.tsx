@@ -0,0 +1,93 @@
+'use client';
+
+import { ProcessedMonthData, ReconciliationTolerances } from '../types';
+import { findFlaggedDays, formatDeviation } from '../util/reconciliation';
+
+interface DataQualityPanelProps {
+  data: ProcessedMonthData;
+  tolerances: ReconciliationTolerances;
+  onTolerancesChange: (tolerances: ReconciliationTolerances) => void;
+}
+
+export default function DataQualityPanel({ data, tolerances, onTolerancesChange }: DataQualityPanelProps) {
+  const flaggedDays = findFlaggedDays(data, tolerances);
+
+  // Tolerances are edited in percent and stored as fractions
+  const updateTolerance = (field: keyof ReconciliationTolerances, value: string) => {
+    const percentage = parseFloat(value.replace(',', '.'));
+    if (isNaN(percentage) || percentage < 0) return;
+    onTolerancesChange({ ...tolerances, [field]: percentage / 100 });
+  };
+
+  return (
+    <div className="mt-4 bg-white rounded-lg shadow-sm p-4">
+      <h3 className="text-sm font-medium text-[#00001F] mb-1">Datakwaliteit</h3>
+      <p className="text-xs text-gray-600 mb-3">
+        Per dag wordt gecontroleerd of de kijkers per uur optellen tot Dagcijfers en of de percentages per uur samen 100% zijn.
+      </p>
+
+      <div className="flex flex-wrap gap-4 mb-3">
+        <label className="text-xs text-gray-700">
+          Afwijking kijkers (%):
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={Number((tolerances.viewers * 100).toFixed(2))}
+            onChange={(e) => updateTolerance('viewers', e.target.value)}
+            className="ml-2 w-16 px-1 py-0.5 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+          />
+        </label>
+        <label className="text-xs text-gray-700">
+          Afwijking som percentages (procentpunt):
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={Number((tolerances.percentageSum * 100).toFixed(2))}
+            onChange={(e) => updateTolerance('percentageSum', e.target.value)}
+            className="ml-2 w-16 px-1 py-0.5 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+          />
+        </label>
+      </div>
+
+      {flaggedDays.length === 0 ? (
+        <p className="text-xs text-green-700">Alle {data.days.length} dagen vallen binnen de toleranties.</p>
+      ) : (
+        <>
+          <p className="text-xs text-red-700 mb-2">
+            {flaggedDays.length} van de {data.days.length} dagen vallen buiten de toleranties; ze zijn rood gemarkeerd in de dagweergave.
+          </p>
+          <div className="max-h-60 overflow-y-auto">
+            <table className="w-full text-xs text-left">
+              <thead>
+                <tr className="text-gray-600">
+                  <th className="px-2 py-1 font-medium">Datum</th>
+                  <th className="px-2 py-1 font-medium text-right">Dagcijfers</th>
+                  <th className="px-2 py-1 font-medium text-right">Som uren</th>
+                  <th className="px-2 py-1 font-medium text-right">Afwijking</th>
+                  <th className="px-2 py-1 font-medium text-right">Som percentages</th>
+                </tr>
+              </thead>
+              <tbody>
+                {flaggedDays.map(result => (
+                  <tr key={result.date} className="border-t border-gray-100">
+                    <td className="px-2 py-1">{result.date}</td>
+                    <td className="px-2 py-1 text-right">{result.dailyTotal.toLocaleString('nl-NL')}</td>
+                    <td className="px-2 py-1 text-right">{result.hourlyTotal.toLocaleString('nl-NL')}</td>
+                    <td className={`px-2 py-1 text-right ${result.viewersFlagged ? 'text-red-700 font-medium' : ''}`}>
+                      {formatDeviation(result.viewersDeviation)}
+                    </td>
+                    <td className={`px-2 py-1 text-right ${result.percentagesFlagged ? 'text-red-700 font-medium' : ''}`}>
+                      {formatDeviation(result.percentageSum, false)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
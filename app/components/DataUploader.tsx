@@ -1,25 +1,301 @@
 'use client';
 
-import { useState } from 'react';
-import { ProcessedMonthData, ScheduleData } from '../types';
-import { processExcelFile } from '../util/excelProcessor';
-import { parseScheduleCSV } from '../util/programScheduleParser';
-import { saveProcessedData, loadProcessedData } from '../util/storage';
+import { useState, useEffect, useRef } from 'react';
+import { ProcessedMonthData, ScheduleData, AgeGroupKey, ImportProfile, ImportDiagnostics, ImportProgress, SheetImport, ViewerColumnDetection, ViewerColumnMapping, DayConflict, DayVersion, ReconciliationTolerances, CalculationMode, CategoryRule } from '../types';
+import { startViewerImport, ImportCancelledError, ViewerImportTask } from '../util/viewerImportClient';
+import { parseScheduleFile } from '../util/programScheduleParser';
+import { detectFileKind } from '../util/importDetection';
+import { isDelimitedTextFile } from '../util/delimitedText';
+import { findDayConflicts, mergeIntoMonths } from '../util/dayMerge';
+import { DEFAULT_IMPORT_PROFILE, ColumnMappingRequiredError, createImportProfile } from '../util/importProfiles';
+import { createDiagnostics, addDiagnostic, countDiagnostics } from '../util/diagnostics';
+import { saveProcessedData, loadProcessedData, mergeViewerAndProgramData, saveImportProfiles, loadImportProfiles, saveBroadcastDayStartHour, loadBroadcastDayStartHour } from '../util/storage';
+import { BROADCAST_DAY_START_HOURS, DEFAULT_BROADCAST_DAY_START_HOUR, formatBroadcastHour, getDayStartHour } from '../util/broadcastDay';
+import { CALCULATION_MODES, CALCULATION_MODE_LABELS, DEFAULT_CALCULATION_MODE } from '../util/calculationMode';
+import { DEFAULT_CATEGORY_RULES, applyCategoryRulesToMonths } from '../util/categoryRules';
+import ColumnMapping from './ColumnMapping';
+import ImportPreview from './ImportPreview';
+import SchedulePreview from './SchedulePreview';
+import DayConflicts from './DayConflicts';
+import DiagnosticsReport from './DiagnosticsReport';
+
+// A parsed file waiting in the preview: months of viewer data or a program schedule
+type PendingPreview =
+  | { kind: 'viewer'; fileName: string; sheets: SheetImport[]; diagnostics: ImportDiagnostics }
+  | { kind: 'schedule'; fileName: string; schedule: ScheduleData; diagnostics: ImportDiagnostics };
 
 interface DataUploaderProps {
+  existingData?: ProcessedMonthData[]; // Stored months, used to find days that change on re-import
+  reconciliationTolerances?: ReconciliationTolerances; // Checks of the hours against Dagcijfers during import
+  calculationMode?: CalculationMode; // Global setting; the default for each import
+  categoryRules?: CategoryRule[]; // Give imported programs their category, genre and repeat flag
+  schedule?: ScheduleData | null; // Stored program schedule; its programs are added to imported days
   onDataProcessed: (setter: (prevData: ProcessedMonthData[]) => ProcessedMonthData[]) => void;
+  onScheduleProcessed: (schedule: ScheduleData) => void; // Store a confirmed schedule and add its programs
   onClearAll?: () => void; // Optional callback for clearing all data
 }
 
-export default function DataUploader({ onDataProcessed, onClearAll }: DataUploaderProps) {
+export default function DataUploader({ existingData = [], reconciliationTolerances, calculationMode = DEFAULT_CALCULATION_MODE, categoryRules, schedule, onDataProcessed, onScheduleProcessed, onClearAll }: DataUploaderProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [debugInfo, setDebugInfo] = useState<string | null>(null);
   const [uploadedFiles, setUploadedFiles] = useState<string[]>([]);
+  const [estimateAgeGroups, setEstimateAgeGroups] = useState(false);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(DEFAULT_IMPORT_PROFILE.id);
+  const [pendingMappings, setPendingMappings] = useState<{
+    file: File;
+    detection: ViewerColumnDetection;
+    mappings: Record<string, ViewerColumnMapping>;
+  }[]>([]);
+  // Parsed files waiting in the preview; nothing is stored until they are confirmed
+  const [pendingPreviews, setPendingPreviews] = useState<PendingPreview[]>([]);
+  const [diagnosticsReports, setDiagnosticsReports] = useState<ImportDiagnostics[]>([]);
+  const [broadcastDayStartHour, setBroadcastDayStartHour] = useState(DEFAULT_BROADCAST_DAY_START_HOUR);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [importCalculationMode, setImportCalculationMode] = useState<CalculationMode>(calculationMode);
+  const [pendingConflicts, setPendingConflicts] = useState<{ incoming: ProcessedMonthData; conflicts: DayConflict[] }[]>([]);
+  
+  // The running worker import and whether the user asked to stop
+  const currentImport = useRef<ViewerImportTask | null>(null);
+  const cancelRequested = useRef(false);
+  
+  // Stored months including the imports of this session that have not been rendered yet
+  const currentData = useRef<ProcessedMonthData[]>(existingData);
+  useEffect(() => {
+    currentData.current = existingData;
+  }, [existingData]);
+  
+  // A change of the global setting resets the choice for the next import
+  useEffect(() => {
+    setImportCalculationMode(calculationMode);
+  }, [calculationMode]);
+
+  // Load the saved import profiles and broadcast day setting
+  useEffect(() => {
+    setProfiles(loadImportProfiles());
+    setBroadcastDayStartHour(loadBroadcastDayStartHour());
+  }, []);
+
+  const handleStartHourChange = (hour: number) => {
+    setBroadcastDayStartHour(hour);
+    saveBroadcastDayStartHour(hour);
+  };
+
+  const selectedProfile = profiles.find(profile => profile.id === selectedProfileId) || DEFAULT_IMPORT_PROFILE;
 
   // Helper function for safely formatting numbers
   const safeFormat = (num: number | undefined): string => {
-    return num !== undefined ? num.toLocaleString() : '0';
+    return num !== undefined ? num.toLocaleString('nl-NL') : '0';
+  };
+
+  // Display labels for the age groups
+  const formatAgeGroups = (groups: AgeGroupKey[] | undefined): string => {
+    const labels: Record<AgeGroupKey, string> = {
+      viewers13Plus: '13+',
+      viewers50Plus: '50+',
+      viewers65Plus: '65+'
+    };
+    return groups && groups.length > 0 ? groups.map(group => labels[group]).join(', ') : 'geen';
+  };
+
+  // Keep the diagnostics of an import for the report table
+  const addDiagnosticsReport = (diagnostics: ImportDiagnostics) => {
+    setDiagnosticsReports(prev => [...prev, diagnostics]);
+    
+    const counts = countDiagnostics(diagnostics);
+    if (counts.warning > 0 || counts.error > 0) {
+      setDebugInfo(prev => `${prev}\n• ${counts.warning} waarschuwingen, ${counts.error} fouten (zie importdiagnose)`);
+    }
+  };
+
+  // Record a failed import in the diagnostics report
+  const addFailureReport = (fileName: string, message: string) => {
+    const diagnostics = createDiagnostics(fileName);
+    addDiagnostic(diagnostics, { level: 'error', category: 'summary', message });
+    setDiagnosticsReports(prev => [...prev, diagnostics]);
+  };
+
+  // Merge a month into the data set; for days stored with other numbers `keep` says which version stays
+  const mergeMonth = (month: ProcessedMonthData, keep: Record<string, DayVersion> = {}) => {
+    // The days get the programs of the stored schedule, also when it was imported first
+    const withPrograms = schedule
+      ? applyCategoryRulesToMonths(mergeViewerAndProgramData([month], schedule), categoryRules || DEFAULT_CATEGORY_RULES)[0]
+      : month;
+    currentData.current = mergeIntoMonths(currentData.current, withPrograms, keep);
+    onDataProcessed((prevData: ProcessedMonthData[]) => mergeIntoMonths(prevData, withPrograms, keep));
+  };
+
+  // Report a processed month and add it to the data set
+  const commitMonthData = (processedData: ProcessedMonthData) => {
+    // Log detailed information for debugging
+    setDebugInfo(prev => `${prev}\n✅ Succesvol verwerkt: ${processedData.days.length} dagen gevonden in ${processedData.monthYear}`);
+    setDebugInfo(prev => `${prev}\n• Totaal aantal kijkers: ${safeFormat(processedData.totalViewers)}`);
+    
+    if (processedData.days.length > 0) {
+      const sampleDay = processedData.days[0];
+      setDebugInfo(prev => `${prev}\n• Voorbeeld dag (${sampleDay.date}): ${safeFormat(sampleDay.totalViewers)} kijkers`);
+      
+      // Make sure peakHour is valid
+      if (processedData.peakHour !== undefined && 
+          processedData.peakHour >= 0 && 
+          processedData.peakHour < 24 && 
+          processedData.averageHourlyViewers?.[processedData.peakHour] !== undefined) {
+        setDebugInfo(prev => `${prev}\n• Piekuur: ${formatBroadcastHour(processedData.peakHour, getDayStartHour(processedData))} (${safeFormat(processedData.averageHourlyViewers[processedData.peakHour])} kijkers)`);
+      } else {
+        setDebugInfo(prev => `${prev}\n• Piekuur: Niet gevonden`);
+      }
+    }
+    
+    setDebugInfo(prev => `${prev}\n• Doelgroepen gemeten (Kdh%): ${formatAgeGroups(processedData.measuredAgeGroups)}`);
+    if (processedData.estimatedAgeGroups && processedData.estimatedAgeGroups.length > 0) {
+      setDebugInfo(prev => `${prev}\n• Doelgroepen GESCHAT (simulatie): ${formatAgeGroups(processedData.estimatedAgeGroups)}`);
+    }
+    
+    // A month without conflicting days is merged right away; otherwise it waits
+    // until the user has chosen per day which version is kept
+    const conflicts = findDayConflicts(currentData.current, processedData);
+    if (conflicts.length === 0) {
+      mergeMonth(processedData);
+      return;
+    }
+    
+    setDebugInfo(prev => `${prev}\n⚠️ ${conflicts.length} dagen in ${processedData.monthYear} wijken af van de opgeslagen cijfers, kies welke versie bewaard wordt`);
+    setPendingConflicts(prev => [...prev, { incoming: processedData, conflicts }]);
+  };
+
+  // Merge the month once, with the new version for the days where it was chosen
+  const handleConflictsResolved = (keep: Record<string, DayVersion>) => {
+    const pending = pendingConflicts[0];
+    if (!pending) return;
+    
+    setPendingConflicts(prev => prev.slice(1));
+    mergeMonth(pending.incoming, keep);
+    
+    const replaced = Object.keys(keep).filter(date => keep[date] === 'incoming');
+    if (replaced.length === 0) {
+      setDebugInfo(prev => `${prev}\nOpgeslagen cijfers van ${pending.incoming.monthYear} behouden`);
+    } else {
+      setDebugInfo(prev => `${prev}\n${replaced.length} dagen in ${pending.incoming.monthYear} vervangen door de nieuwe cijfers`);
+    }
+  };
+
+  const handleConflictsCancelled = () => {
+    handleConflictsResolved({});
+  };
+
+  // Process a viewer data file; the months found go to the preview before they are stored
+  const importViewerFile = async (file: File, columnMappings: Record<string, ViewerColumnMapping> = {}) => {
+    try {
+      const task = startViewerImport(file, {
+        estimateMissingAgeGroups: estimateAgeGroups,
+        profile: selectedProfile,
+        columnMappings,
+        broadcastDayStartHour,
+        reconciliationTolerances,
+        calculationMode: importCalculationMode
+      }, setProgress);
+      currentImport.current = task;
+      
+      const { data: sheets, diagnostics } = await task.promise.finally(() => {
+        currentImport.current = null;
+        setProgress(null);
+      });
+      
+      addDiagnosticsReport(diagnostics);
+      
+      const validSheets = sheets.filter(sheet => sheet.data.days.length > 0);
+      if (validSheets.length === 0) {
+        setDebugInfo(prev => `${prev}\nGeen geldige data gevonden in ${file.name}`);
+        return;
+      }
+      
+      // Show the result first; the months are only stored after confirmation
+      const sheetCount = new Set(validSheets.map(sheet => sheet.sheetName)).size;
+      setDebugInfo(prev => `${prev}\n• ${validSheets.length} maanden${sheetCount > 1 ? ` op ${sheetCount} werkbladen` : ''} gevonden, controleer het voorbeeld`);
+      setPendingPreviews(prev => [...prev, { kind: 'viewer', fileName: file.name, sheets: validSheets, diagnostics }]);
+    } catch (err) {
+      if (err instanceof ImportCancelledError) {
+        setDebugInfo(prev => `${prev}\n⏹ ${err.message}`);
+        return;
+      }
+      if (!(err instanceof ColumnMappingRequiredError)) throw err;
+      
+      // Ask the user to confirm the columns before processing this file
+      const sheetLabel = err.detection.sheetName ? ` (werkblad ${err.detection.sheetName})` : '';
+      setDebugInfo(prev => `${prev}\n⚠️ Kolommen niet zeker herkend in ${file.name}${sheetLabel}, koppeling nodig`);
+      setPendingMappings(prev => [...prev, { file, detection: err.detection, mappings: columnMappings }]);
+    }
+  };
+
+  // Store the months confirmed in the preview
+  const handlePreviewConfirmed = (sheets: SheetImport[]) => {
+    const pending = pendingPreviews[0];
+    if (!pending || pending.kind !== 'viewer') return;
+    
+    setPendingPreviews(prev => prev.slice(1));
+    setDebugInfo(prev => `${prev}\n\nImporteren uit ${pending.fileName}: ${sheets.map(sheet => sheet.data.monthYear).join(', ')}`);
+    sheets.forEach(sheet => commitMonthData(sheet.data));
+  };
+
+  // Store the schedule confirmed in the preview; its programs go to the stored days
+  const handleSchedulePreviewConfirmed = () => {
+    const pending = pendingPreviews[0];
+    if (!pending || pending.kind !== 'schedule') return;
+    
+    setPendingPreviews(prev => prev.slice(1));
+    setDebugInfo(prev => `${prev}\n\nProgrammering importeren uit ${pending.fileName}`);
+    onScheduleProcessed(pending.schedule);
+  };
+
+  const handlePreviewDiscarded = () => {
+    const pending = pendingPreviews[0];
+    if (!pending) return;
+    
+    setPendingPreviews(prev => prev.slice(1));
+    setDebugInfo(prev => `${prev}\nImport van ${pending.fileName} verworpen; er is niets opgeslagen`);
+  };
+
+  // Process the first file that waits for a confirmed column mapping
+  const handleMappingConfirmed = async (mapping: ViewerColumnMapping, profileName?: string) => {
+    const pending = pendingMappings[0];
+    if (!pending) return;
+    
+    setPendingMappings(prev => prev.slice(1));
+    
+    if (profileName) {
+      const profile = createImportProfile(profileName, mapping, pending.detection.headers);
+      const updatedProfiles = [...profiles, profile];
+      setProfiles(updatedProfiles);
+      saveImportProfiles(updatedProfiles);
+      setSelectedProfileId(profile.id);
+      setDebugInfo(prev => `${prev}\n• Importprofiel "${profileName}" opgeslagen`);
+    }
+    
+    setIsLoading(true);
+    cancelRequested.current = false;
+    try {
+      setDebugInfo(prev => `${prev}\n\nVerwerken van bestand met gekoppelde kolommen: ${pending.file.name}`);
+      await importViewerFile(pending.file, {
+        ...pending.mappings,
+        [pending.detection.sheetName || '']: mapping
+      });
+    } catch (err) {
+      console.error('Error processing file:', err);
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      setError(`Fout bij verwerken van bestand ${pending.file.name}: ${errorMessage}`);
+      setDebugInfo(prev => `${prev}\n❌ FOUT: ${errorMessage}`);
+      addFailureReport(pending.file.name, errorMessage);
+    }
+    setIsLoading(false);
+  };
+
+  const handleMappingCancelled = () => {
+    const pending = pendingMappings[0];
+    if (!pending) return;
+    
+    setPendingMappings(prev => prev.slice(1));
+    setDebugInfo(prev => `${prev}\nBestand ${pending.file.name} overgeslagen`);
   };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -29,19 +305,23 @@ export default function DataUploader({ onDataProcessed, onClearAll }: DataUpload
     setIsLoading(true);
     setError(null);
     setDebugInfo("Verwerking gestart...");
+    cancelRequested.current = false;
     
     const fileNames = Array.from(files).map(file => file.name);
     setUploadedFiles(prev => [...prev, ...fileNames]);
     
     // Process each file
     for (const file of Array.from(files)) {
+      if (cancelRequested.current) {
+        setDebugInfo(prev => `${prev}\nBestand ${file.name} niet verwerkt (import geannuleerd)`);
+        continue;
+      }
+      
       try {
         setDebugInfo(prev => `${prev}\n\nVerwerken van bestand: ${file.name}`);
         
-        // Check if it's a CSV file
-        const isCSV = 
-          file.type === 'text/csv' ||
-          file.name.toLowerCase().endsWith('.csv');
+        // Check if it's a CSV or TSV file
+        const isText = isDelimitedTextFile(file.name);
         
         // Check if it's an Excel file
         const isExcel = 
@@ -50,18 +330,30 @@ export default function DataUploader({ onDataProcessed, onClearAll }: DataUpload
           file.name.toLowerCase().endsWith('.xlsx') || 
           file.name.toLowerCase().endsWith('.xls');
         
-        if (!isExcel && !isCSV) {
+        if (!isExcel && !isText) {
           setDebugInfo(prev => `${prev}\nBestand ${file.name} is geen ondersteund bestandstype (type: ${file.type})`);
           setError(`Bestand ${file.name} is geen ondersteund bestandstype. Type: ${file.type}`);
           continue;
         }
         
-        if (isCSV) {
-          // Process CSV file (program schedule)
-          setDebugInfo(prev => `${prev}\nCSV-bestand gedetecteerd, bezig met verwerken als programmering...`);
+        // Workbooks and text files can hold viewer data or a program schedule; look at the contents
+        const kind = await detectFileKind(file);
+        
+        if (kind === 'unknown') {
+          const message = 'Geen kijkcijfers (kolommen Datum/Dag/Tijdvak) of programmering (rij met dagnamen) herkend';
+          setDebugInfo(prev => `${prev}\n❌ ${message}`);
+          setError(`${file.name}: ${message}`);
+          addFailureReport(file.name, message);
+          continue;
+        }
+        
+        if (kind === 'schedule') {
+          // Process the program schedule
+          setDebugInfo(prev => `${prev}\nProgrammering gedetecteerd, bezig met verwerken...`);
           
           try {
-            const scheduleData = await parseScheduleCSV(file);
+            const { data: scheduleData, diagnostics } = await parseScheduleFile(file, { broadcastDayStartHour, categoryRules });
+            addDiagnosticsReport(diagnostics);
             
             // Format dates for display
             const formattedDates = Array.from(scheduleData.days.keys()).sort();
@@ -83,94 +375,42 @@ export default function DataUploader({ onDataProcessed, onClearAll }: DataUpload
               }
             }
             
-            // Get existing data
-            const existingData = onDataProcessed((prevData: ProcessedMonthData[]) => {
-              return prevData;
-            });
-            
-            // Merge program data with viewer data
-            const mergedData = existingData.map(monthData => {
-              const updatedDays = monthData.days.map(day => {
-                // If the schedule has programs for this day, add them
-                if (scheduleData.days.has(day.date)) {
-                  return {
-                    ...day,
-                    programs: scheduleData.days.get(day.date) || []
-                  };
-                }
-                return day;
-              });
-              
-              return {
-                ...monthData,
-                days: updatedDays
-              };
-            });
-            
-            // Update the state with merged data
-            onDataProcessed(() => mergedData);
+            // Show the result first; the programs are only stored after confirmation
+            setDebugInfo(prev => `${prev}\n• Controleer het voorbeeld`);
+            setPendingPreviews(prev => [...prev, { kind: 'schedule', fileName: file.name, schedule: scheduleData, diagnostics }]);
             
           } catch (err) {
             const errorMessage = err instanceof Error ? err.message : String(err);
             setDebugInfo(prev => `${prev}\n❌ FOUT bij verwerken van programmering: ${errorMessage}`);
             setError(`Fout bij verwerken van programmering in ${file.name}: ${errorMessage}`);
+            addFailureReport(file.name, errorMessage);
           }
           
           continue; // Skip to next file
         }
         
-        // Process Excel file (viewer data)
-        setDebugInfo(prev => `${prev}\nExcel-bestand gedetecteerd, bezig met verwerken als kijkcijfers...`);
-        
-        const processedData = await processExcelFile(file);
-        
-        if (!processedData || !processedData.days || processedData.days.length === 0) {
-          setDebugInfo(prev => `${prev}\nGeen geldige data gevonden in ${file.name}`);
-          continue;
-        }
-        
-        // Log detailed information for debugging
-        setDebugInfo(prev => `${prev}\n✅ Succesvol verwerkt: ${processedData.days.length} dagen gevonden in ${processedData.monthYear}`);
-        setDebugInfo(prev => `${prev}\n• Totaal aantal kijkers: ${safeFormat(processedData.totalViewers)}`);
-        
-        if (processedData.days.length > 0) {
-          const sampleDay = processedData.days[0];
-          setDebugInfo(prev => `${prev}\n• Voorbeeld dag (${sampleDay.date}): ${safeFormat(sampleDay.totalViewers)} kijkers`);
-          
-          // Make sure peakHour is valid
-          if (processedData.peakHour !== undefined && 
-              processedData.peakHour >= 0 && 
-              processedData.peakHour < 24 && 
-              processedData.averageHourlyViewers?.[processedData.peakHour] !== undefined) {
-            setDebugInfo(prev => `${prev}\n• Piekuur: ${processedData.peakHour}:00 (${safeFormat(processedData.averageHourlyViewers[processedData.peakHour])} kijkers)`);
-          } else {
-            setDebugInfo(prev => `${prev}\n• Piekuur: Niet gevonden`);
-          }
-        }
+        // Process viewer data (Excel or delimited text)
+        setDebugInfo(prev => `${prev}\n${isText ? 'Tekstbestand' : 'Excel-bestand'} met kijkcijfers gedetecteerd, bezig met verwerken...`);
         
-        // Add to existing data or create new array
-        onDataProcessed((prevData: ProcessedMonthData[]) => {
-          // Check if month already exists, if so, replace it
-          const monthExists = prevData.findIndex(m => m.monthYear === processedData.monthYear);
-          if (monthExists >= 0) {
-            const newData = [...prevData];
-            newData[monthExists] = processedData;
-            return newData;
-          }
-          // Otherwise, add the new month data
-          return [...prevData, processedData];
-        });
+        await importViewerFile(file);
       } catch (err) {
         console.error('Error processing file:', err);
         const errorMessage = err instanceof Error ? err.message : String(err);
         setError(`Fout bij verwerken van bestand ${file.name}: ${errorMessage}`);
         setDebugInfo(prev => `${prev}\n❌ FOUT: ${errorMessage}`);
+        addFailureReport(file.name, errorMessage);
       }
     }
     
     setIsLoading(false);
   };
 
+  // Stop the running import and skip the files that are still waiting
+  const handleCancelImport = () => {
+    cancelRequested.current = true;
+    currentImport.current?.cancel();
+  };
+
   const clearData = () => {
     if (confirm('Weet u zeker dat u alle geüploade bestanden wilt wissen?')) {
       if (onClearAll) {
@@ -179,6 +419,7 @@ export default function DataUploader({ onDataProcessed, onClearAll }: DataUpload
         onDataProcessed(() => []);
       }
       setUploadedFiles([]);
+      setDiagnosticsReports([]);
       setDebugInfo('Alle gegevens zijn gewist.');
     }
   };
@@ -205,7 +446,7 @@ export default function DataUploader({ onDataProcessed, onClearAll }: DataUpload
               type="file"
               id="file-upload"
               onChange={handleFileChange}
-              accept=".xlsx,.xls,.csv"
+              accept=".xlsx,.xls,.csv,.tsv,.txt"
               multiple
               className="hidden"
             />
@@ -214,19 +455,153 @@ export default function DataUploader({ onDataProcessed, onClearAll }: DataUpload
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
               </svg>
               <p className="mt-1 text-sm text-gray-800 font-medium">Klik om bestanden te kiezen</p>
-              <p className="mt-1 text-xs text-gray-600">(.xlsx, .xls of .csv)</p>
+              <p className="mt-1 text-xs text-gray-600">(.xlsx, .xls, .csv of .tsv)</p>
             </div>
           </div>
         </label>
+        
+        <div className="mt-3">
+          <label htmlFor="import-profile" className="block text-xs font-medium text-gray-700 mb-1">
+            Importprofiel:
+          </label>
+          <select
+            id="import-profile"
+            value={selectedProfile.id}
+            onChange={(e) => setSelectedProfileId(e.target.value)}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+          >
+            {[DEFAULT_IMPORT_PROFILE, ...profiles].map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </div>
+        
+        <div className="mt-3">
+          <label htmlFor="broadcast-day-start" className="block text-xs font-medium text-gray-700 mb-1">
+            Begin uitzenddag:
+          </label>
+          <select
+            id="broadcast-day-start"
+            value={broadcastDayStartHour}
+            onChange={(e) => handleStartHourChange(parseInt(e.target.value, 10))}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+          >
+            {BROADCAST_DAY_START_HOURS.map(hour => (
+              <option key={hour} value={hour}>
+                {formatBroadcastHour(0, hour)} tot {formatBroadcastHour(0, hour + 24)}
+              </option>
+            ))}
+          </select>
+        </div>
+        
+        <div className="mt-3">
+          <label htmlFor="import-calculation-mode" className="block text-xs font-medium text-gray-700 mb-1">
+            Rekenmethode voor deze import:
+          </label>
+          <select
+            id="import-calculation-mode"
+            value={importCalculationMode}
+            onChange={(e) => setImportCalculationMode(e.target.value as CalculationMode)}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+          >
+            {CALCULATION_MODES.map(mode => (
+              <option key={mode} value={mode}>{CALCULATION_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+        
+        <label className="mt-3 inline-flex items-start cursor-pointer">
+          <input
+            type="checkbox"
+            id="estimate-age-groups"
+            checked={estimateAgeGroups}
+            onChange={() => setEstimateAgeGroups(!estimateAgeGroups)}
+            className="form-checkbox h-4 w-4 mt-0.5 text-[#F47B25] rounded focus:ring-0"
+          />
+          <span className="ml-2 text-xs text-gray-600">
+            Ontbrekende doelgroepen schatten (simulatie, geen echte meting)
+          </span>
+        </label>
       </div>
       
+      {pendingMappings.length > 0 && (
+        <ColumnMapping
+          key={`${pendingMappings[0].file.name}-${pendingMappings[0].detection.sheetName || ''}`}
+          fileName={pendingMappings[0].file.name}
+          detection={pendingMappings[0].detection}
+          onConfirm={handleMappingConfirmed}
+          onCancel={handleMappingCancelled}
+        />
+      )}
+      
+      {pendingConflicts.length > 0 && (
+        <DayConflicts
+          key={`${pendingConflicts[0].incoming.monthYear}-${pendingConflicts.length}`}
+          monthYear={pendingConflicts[0].incoming.monthYear}
+          conflicts={pendingConflicts[0].conflicts}
+          onConfirm={handleConflictsResolved}
+          onCancel={handleConflictsCancelled}
+        />
+      )}
+      
+      {pendingPreviews.length > 0 && pendingPreviews[0].kind === 'viewer' && (
+        <ImportPreview
+          key={`${pendingPreviews[0].fileName}-${pendingPreviews.length}`}
+          fileName={pendingPreviews[0].fileName}
+          sheets={pendingPreviews[0].sheets}
+          diagnostics={pendingPreviews[0].diagnostics}
+          existingData={existingData}
+          onConfirm={handlePreviewConfirmed}
+          onCancel={handlePreviewDiscarded}
+        />
+      )}
+      
+      {pendingPreviews.length > 0 && pendingPreviews[0].kind === 'schedule' && (
+        <SchedulePreview
+          key={`${pendingPreviews[0].fileName}-${pendingPreviews.length}`}
+          fileName={pendingPreviews[0].fileName}
+          schedule={pendingPreviews[0].schedule}
+          diagnostics={pendingPreviews[0].diagnostics}
+          existingData={existingData}
+          onConfirm={handleSchedulePreviewConfirmed}
+          onCancel={handlePreviewDiscarded}
+        />
+      )}
+      
       {isLoading && (
-        <div className="text-sm mb-4 p-3 bg-orange-50 rounded flex items-center">
-          <svg className="animate-spin mr-2 h-4 w-4 text-[#F47B25]" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-          </svg>
-          <span className="text-[#F47B25]">Verwerken...</span>
+        <div className="text-sm mb-4 p-3 bg-orange-50 rounded">
+          <div className="flex items-center">
+            <svg className="animate-spin mr-2 h-4 w-4 text-[#F47B25]" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+            <span className="flex-1 text-[#F47B25] truncate">
+              {progress ? `Verwerken van ${progress.fileName}...` : 'Verwerken...'}
+            </span>
+            <button
+              onClick={handleCancelImport}
+              className="ml-2 px-2 py-0.5 text-xs font-medium text-gray-700 border border-gray-300 rounded bg-white hover:bg-gray-50"
+              type="button"
+            >
+              Annuleren
+            </button>
+          </div>
+          
+          {progress && (
+            <div className="mt-2">
+              <div className="h-1.5 bg-white rounded">
+                <div
+                  className="h-1.5 bg-[#F47B25] rounded"
+                  style={{ width: `${progress.totalRows > 0 ? Math.round(progress.rowsProcessed / progress.totalRows * 100) : 0}%` }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-gray-600">
+                {progress.totalRows > 0
+                  ? `${progress.sheetName ? `${progress.sheetName}: ` : ''}rij ${progress.rowsProcessed.toLocaleString('nl-NL')} van ${progress.totalRows.toLocaleString('nl-NL')}`
+                  : 'Bestand lezen...'}
+              </p>
+            </div>
+          )}
         </div>
       )}
       
@@ -279,6 +654,17 @@ export default function DataUploader({ onDataProcessed, onClearAll }: DataUpload
         </div>
       )}
 
+      {diagnosticsReports.length > 0 && (
+        <div className="mt-4">
+          <details>
+            <summary className="text-xs text-gray-700 cursor-pointer">Importdiagnose</summary>
+            <div className="mt-2">
+              <DiagnosticsReport reports={diagnosticsReports} />
+            </div>
+          </details>
+        </div>
+      )}
+
       <div className="mt-4 text-xs text-gray-500">
         De gegevens worden opgeslagen in de browser.
       </div>
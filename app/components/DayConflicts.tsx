@@ -0,0 +1,151 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { DayConflict, DayVersion } from '../types';
+import { formatBroadcastHour } from '../util/broadcastDay';
+
+interface DayConflictsProps {
+  monthYear: string;
+  conflicts: DayConflict[];
+  onConfirm: (keep: Record<string, DayVersion>) => void;
+  onCancel: () => void;
+}
+
+export default function DayConflicts({ monthYear, conflicts, onConfirm, onCancel }: DayConflictsProps) {
+  // The stored version is kept unless the new one is chosen
+  const [keep, setKeep] = useState<Record<string, DayVersion>>({});
+  const [expandedDate, setExpandedDate] = useState<string | null>(null);
+
+  const chooseAll = (version: DayVersion) => {
+    setKeep(Object.fromEntries(conflicts.map(conflict => [conflict.date, version])));
+  };
+
+  const choose = (date: string, version: DayVersion) => {
+    setKeep(prev => ({ ...prev, [date]: version }));
+  };
+
+  const incomingCount = conflicts.filter(conflict => keep[conflict.date] === 'incoming').length;
+
+  // Hours in which the two versions differ
+  const changedHours = (conflict: DayConflict) => conflict.incoming.hourlyViewers
+    .filter((viewers, index) => viewers !== conflict.existing.hourlyViewers[index]).length;
+
+  return (
+    <div className="mb-4 p-3 border border-[#F47B25] rounded-md bg-orange-50">
+      <h3 className="text-sm font-medium text-[#00001F] mb-1">Dagen met andere cijfers</h3>
+      <p className="text-xs text-gray-600 mb-3">
+        {conflicts.length} {conflicts.length === 1 ? 'dag' : 'dagen'} in <span className="font-medium">{monthYear}</span> staan
+        al opgeslagen met andere cijfers. Kies per dag welke versie bewaard wordt; de nieuwe dagen van de maand worden daarna toegevoegd.
+      </p>
+
+      <div className="mb-2 flex space-x-2">
+        <button
+          onClick={() => chooseAll('existing')}
+          className="px-2 py-0.5 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+          type="button"
+        >
+          Alles bestaand
+        </button>
+        <button
+          onClick={() => chooseAll('incoming')}
+          className="px-2 py-0.5 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+          type="button"
+        >
+          Alles nieuw
+        </button>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        <table className="w-full text-xs text-left">
+          <thead>
+            <tr className="text-gray-600">
+              <th className="px-1 py-1 font-medium">Datum</th>
+              <th className="px-1 py-1 font-medium text-right">Bestaand</th>
+              <th className="px-1 py-1 font-medium text-right">Nieuw</th>
+              <th className="px-1 py-1 font-medium text-center">Bewaren</th>
+            </tr>
+          </thead>
+          <tbody>
+            {conflicts.map(conflict => (
+              <Fragment key={conflict.date}>
+                <tr className="border-t border-orange-100">
+                  <td className="px-1 py-1">
+                    <button
+                      onClick={() => setExpandedDate(expandedDate === conflict.date ? null : conflict.date)}
+                      className="text-left text-[#00001F] hover:underline"
+                      type="button"
+                    >
+                      {conflict.date}
+                    </button>
+                    <div className="text-gray-500">{changedHours(conflict)} uren anders</div>
+                  </td>
+                  <td className="px-1 py-1 text-right">{conflict.existing.totalViewers.toLocaleString('nl-NL')}</td>
+                  <td className="px-1 py-1 text-right">{conflict.incoming.totalViewers.toLocaleString('nl-NL')}</td>
+                  <td className="px-1 py-1 text-center whitespace-nowrap">
+                    <label className="mr-2">
+                      <input
+                        type="radio"
+                        name={`keep-${conflict.date}`}
+                        checked={keep[conflict.date] !== 'incoming'}
+                        onChange={() => choose(conflict.date, 'existing')}
+                        className="mr-1"
+                      />
+                      Bestaand
+                    </label>
+                    <label>
+                      <input
+                        type="radio"
+                        name={`keep-${conflict.date}`}
+                        checked={keep[conflict.date] === 'incoming'}
+                        onChange={() => choose(conflict.date, 'incoming')}
+                        className="mr-1"
+                      />
+                      Nieuw
+                    </label>
+                  </td>
+                </tr>
+                {expandedDate === conflict.date && (
+                  <tr>
+                    <td colSpan={4} className="px-1 pb-2">
+                      <table className="w-full text-xs bg-white">
+                        <tbody>
+                          {conflict.existing.hourlyViewers.map((viewers, index) => {
+                            const incomingViewers = conflict.incoming.hourlyViewers[index];
+                            return (
+                              <tr key={index} className={viewers !== incomingViewers ? 'text-red-700' : 'text-gray-500'}>
+                                <td className="px-1">{formatBroadcastHour(index, conflict.broadcastDayStartHour)}</td>
+                                <td className="px-1 text-right">{viewers.toLocaleString('nl-NL')}</td>
+                                <td className="px-1 text-right">{(incomingViewers ?? 0).toLocaleString('nl-NL')}</td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex space-x-2">
+        <button
+          onClick={() => onConfirm(keep)}
+          className="px-3 py-1 text-xs font-medium text-white bg-[#F47B25] rounded hover:bg-[#F9A65E]"
+          type="button"
+        >
+          Toepassen ({incomingCount} nieuw)
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+          type="button"
+        >
+          Bestaande houden
+        </button>
+      </div>
+    </div>
+  );
+}
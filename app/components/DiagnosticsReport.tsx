@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { DiagnosticCategory, DiagnosticLevel, ImportDiagnostics } from '../types';
+import { DIAGNOSTIC_CATEGORY_LABELS, DIAGNOSTIC_LEVEL_LABELS, diagnosticsToCsv } from '../util/diagnostics';
+
+interface DiagnosticsReportProps {
+  reports: ImportDiagnostics[];
+}
+
+export default function DiagnosticsReport({ reports }: DiagnosticsReportProps) {
+  const [levelFilter, setLevelFilter] = useState<DiagnosticLevel | 'all'>('all');
+  const [categoryFilter, setCategoryFilter] = useState<DiagnosticCategory | 'all'>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Apply the filters while keeping the entries grouped per file
+  const filteredReports: ImportDiagnostics[] = reports.map(report => ({
+    fileName: report.fileName,
+    entries: report.entries.filter(entry => {
+      if (levelFilter !== 'all' && entry.level !== levelFilter) return false;
+      if (categoryFilter !== 'all' && entry.category !== categoryFilter) return false;
+      if (searchTerm) {
+        const haystack = `${report.fileName} ${entry.sheet || ''} ${entry.date || ''} ${entry.message}`.toLowerCase();
+        if (!haystack.includes(searchTerm.toLowerCase())) return false;
+      }
+      return true;
+    })
+  }));
+
+  const visibleCount = filteredReports.reduce((total, report) => total + report.entries.length, 0);
+  const totalCount = reports.reduce((total, report) => total + report.entries.length, 0);
+
+  // Download the visible entries as a CSV file
+  const handleDownload = () => {
+    const blob = new Blob([diagnosticsToCsv(filteredReports)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'importdiagnose.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const levelClasses: Record<DiagnosticLevel, string> = {
+    info: 'bg-blue-100 text-blue-800',
+    warning: 'bg-yellow-100 text-yellow-800',
+    error: 'bg-red-100 text-red-800'
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-2">
+        <select
+          value={levelFilter}
+          onChange={(e) => setLevelFilter(e.target.value as DiagnosticLevel | 'all')}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+        >
+          <option value="all">Alle niveaus</option>
+          {(Object.keys(DIAGNOSTIC_LEVEL_LABELS) as DiagnosticLevel[]).map(level => (
+            <option key={level} value={level}>{DIAGNOSTIC_LEVEL_LABELS[level]}</option>
+          ))}
+        </select>
+        <select
+          value={categoryFilter}
+          onChange={(e) => setCategoryFilter(e.target.value as DiagnosticCategory | 'all')}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+        >
+          <option value="all">Alle categorieën</option>
+          {(Object.keys(DIAGNOSTIC_CATEGORY_LABELS) as DiagnosticCategory[]).map(category => (
+            <option key={category} value={category}>{DIAGNOSTIC_CATEGORY_LABELS[category]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Zoeken..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+        />
+      </div>
+
+      <div className="flex justify-between items-center mb-2 text-xs text-gray-600">
+        <span>{visibleCount} van {totalCount} meldingen</span>
+        <button
+          onClick={handleDownload}
+          disabled={visibleCount === 0}
+          className="px-2 py-1 text-xs font-medium text-[#F47B25] border border-[#F47B25] rounded hover:bg-orange-50 disabled:opacity-50"
+          type="button"
+        >
+          Download CSV
+        </button>
+      </div>
+
+      <div className="max-h-64 overflow-auto border border-gray-200 rounded">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr className="text-left text-gray-700">
+              <th className="px-2 py-1 font-medium">Bestand</th>
+              <th className="px-2 py-1 font-medium">Niveau</th>
+              <th className="px-2 py-1 font-medium">Categorie</th>
+              <th className="px-2 py-1 font-medium">Blad</th>
+              <th className="px-2 py-1 font-medium">Rij</th>
+              <th className="px-2 py-1 font-medium">Datum</th>
+              <th className="px-2 py-1 font-medium">Melding</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {filteredReports.map(report => report.entries.map((entry, index) => (
+              <tr key={`${report.fileName}-${index}`} className="align-top text-gray-600">
+                <td className="px-2 py-1 whitespace-nowrap">{report.fileName}</td>
+                <td className="px-2 py-1">
+                  <span className={`rounded-full px-2 py-0.5 ${levelClasses[entry.level]}`}>
+                    {DIAGNOSTIC_LEVEL_LABELS[entry.level]}
+                  </span>
+                </td>
+                <td className="px-2 py-1 whitespace-nowrap">{DIAGNOSTIC_CATEGORY_LABELS[entry.category]}</td>
+                <td className="px-2 py-1">{entry.sheet || '-'}</td>
+                <td className="px-2 py-1">{entry.row ?? '-'}</td>
+                <td className="px-2 py-1 whitespace-nowrap">{entry.date || '-'}</td>
+                <td className="px-2 py-1">{entry.message}</td>
+              </tr>
+            )))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import { ImportDiagnostics, ProcessedMonthData, SheetImport } from '../types';
+import { formatBroadcastHour, getDayStartHour } from '../util/broadcastDay';
+import { countDiagnostics } from '../util/diagnostics';
+import { compareWithStored } from '../util/dayMerge';
+
+interface ImportPreviewProps {
+  fileName: string;
+  sheets: SheetImport[];
+  diagnostics: ImportDiagnostics;
+  existingData: ProcessedMonthData[];
+  onConfirm: (sheets: SheetImport[]) => void;
+  onCancel: () => void;
+}
+
+// Warnings and errors listed in the preview; the rest is in the import report
+const MAX_PREVIEW_DIAGNOSTICS = 5;
+
+export default function ImportPreview({ fileName, sheets, diagnostics, existingData, onConfirm, onCancel }: ImportPreviewProps) {
+  // All months are included by default; a sheet spanning two months has two entries
+  const [selectedSheets, setSelectedSheets] = useState<number[]>(sheets.map((_, index) => index));
+  const [expandedSheet, setExpandedSheet] = useState<number | null>(null);
+
+  const toggleSheet = (index: number) => {
+    setSelectedSheets(prev => prev.includes(index)
+      ? prev.filter(selected => selected !== index)
+      : [...prev, index]
+    );
+  };
+
+  const handleConfirm = () => {
+    onConfirm(sheets.filter((_, index) => selectedSheets.includes(index)));
+  };
+
+  const sheetCount = new Set(sheets.map(sheet => sheet.sheetName)).size;
+  const counts = countDiagnostics(diagnostics);
+  const problems = diagnostics.entries.filter(entry => entry.level !== 'info');
+
+  return (
+    <div className="mb-4 p-3 border border-[#F47B25] rounded-md bg-orange-50">
+      <h3 className="text-sm font-medium text-[#00001F] mb-1">Voorbeeld van de import</h3>
+      <p className="text-xs text-gray-600 mb-3">
+        Controleer wat er in <span className="font-medium">{fileName}</span> is gevonden
+        {sheetCount > 1 && <> ({sheetCount} werkbladen)</>}. Er wordt pas iets opgeslagen als je de import bevestigt.
+      </p>
+
+      <ul className="space-y-3">
+        {sheets.map((sheet, index) => {
+          const month = sheet.data;
+          const comparison = compareWithStored(existingData, month);
+          const startHour = getDayStartHour(month);
+          const maxAverage = Math.max(...month.averageHourlyViewers, 1);
+
+          return (
+            <li key={`${sheet.sheetName}-${month.monthYear}`} className="p-2 bg-white border border-orange-100 rounded">
+              <label className="inline-flex items-start cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedSheets.includes(index)}
+                  onChange={() => toggleSheet(index)}
+                  className="form-checkbox h-4 w-4 mt-0.5 text-[#F47B25] rounded focus:ring-0"
+                />
+                <span className="ml-2 text-xs text-gray-700">
+                  {sheetCount > 1 && <><span className="font-medium">{sheet.sheetName}</span> &ndash; </>}
+                  <span className="font-medium">{month.monthYear}</span>: {month.days.length} dagen
+                  {month.days.length > 0 && <> ({month.days[0].date} t/m {month.days[month.days.length - 1].date})</>},
+                  {' '}{month.totalViewers.toLocaleString('nl-NL')} kijkers
+                </span>
+              </label>
+
+              {/* Average viewers per hour of the broadcast day */}
+              <div className="mt-2 flex items-end h-12 space-x-px" aria-label="Gemiddeld aantal kijkers per uur">
+                {month.averageHourlyViewers.map((viewers, hour) => (
+                  <div
+                    key={hour}
+                    title={`${formatBroadcastHour(hour, startHour)}: ${viewers.toLocaleString('nl-NL')} kijkers`}
+                    className={`flex-1 ${hour === month.peakHour ? 'bg-[#F47B25]' : 'bg-[#F9A65E]'}`}
+                    style={{ height: `${Math.max(2, viewers / maxAverage * 100)}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-gray-500">
+                <span>{formatBroadcastHour(0, startHour)}</span>
+                <span>piekuur {formatBroadcastHour(month.peakHour, startHour)}</span>
+                <span>{formatBroadcastHour(month.averageHourlyViewers.length - 1, startHour)}</span>
+              </div>
+
+              <p className="mt-1 text-xs text-gray-600">
+                {comparison.stored ? (
+                  <>
+                    Opgeslagen: {comparison.stored.days.length} dagen, {comparison.stored.totalViewers.toLocaleString('nl-NL')} kijkers.
+                    {' '}{comparison.newDays} nieuwe dagen, {comparison.unchangedDays} gelijk
+                    {comparison.conflicts.length > 0 && (
+                      <span className="text-red-700">, {comparison.conflicts.length} met andere cijfers (keuze na bevestigen)</span>
+                    )}.
+                  </>
+                ) : (
+                  <>Nieuwe maand; nog niets opgeslagen voor {month.monthYear}.</>
+                )}
+              </p>
+
+              <button
+                onClick={() => setExpandedSheet(expandedSheet === index ? null : index)}
+                className="mt-1 text-xs text-[#00001F] hover:underline"
+                type="button"
+              >
+                {expandedSheet === index ? 'Dagen verbergen' : 'Dagen tonen'}
+              </button>
+              {expandedSheet === index && (
+                <div className="mt-1 max-h-40 overflow-y-auto">
+                  <table className="w-full text-xs text-left">
+                    <tbody>
+                      {month.days.map(day => (
+                        <tr key={day.date} className="border-t border-gray-100">
+                          <td className="px-1">{day.date}</td>
+                          <td className="px-1 text-gray-500">{day.dayOfWeek}</td>
+                          <td className="px-1 text-right">{day.totalViewers.toLocaleString('nl-NL')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-3 text-xs text-gray-600">
+        Importdiagnose: {counts.error} fouten, {counts.warning} waarschuwingen, {counts.info} meldingen
+        {problems.length > 0 && (
+          <ul className="mt-1 list-disc list-inside">
+            {problems.slice(0, MAX_PREVIEW_DIAGNOSTICS).map((entry, index) => (
+              <li key={index} className={entry.level === 'error' ? 'text-red-700' : 'text-yellow-800'}>
+                {entry.sheet && sheetCount > 1 ? `${entry.sheet}: ` : ''}{entry.row ? `rij ${entry.row}: ` : ''}{entry.message}
+              </li>
+            ))}
+            {problems.length > MAX_PREVIEW_DIAGNOSTICS && (
+              <li className="list-none">… en {problems.length - MAX_PREVIEW_DIAGNOSTICS} meer (zie importdiagnose)</li>
+            )}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-3 flex space-x-2">
+        <button
+          onClick={handleConfirm}
+          disabled={selectedSheets.length === 0}
+          className="px-3 py-1 text-xs font-medium text-white bg-[#F47B25] rounded hover:bg-[#F9A65E] disabled:opacity-50"
+          type="button"
+        >
+          Importeren ({selectedSheets.length})
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+          type="button"
+        >
+          Verwerpen
+        </button>
+      </div>
+    </div>
+  );
+}
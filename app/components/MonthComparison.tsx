@@ -15,6 +15,7 @@ import {
 } from 'chart.js';
 import { Bar, Line } from 'react-chartjs-2';
 import { ProcessedMonthData } from '../types';
+import { broadcastHour, getDayStartHour } from '../util/broadcastDay';
 
 // Register ChartJS components
 ChartJS.register(
@@ -95,10 +96,10 @@ export default function MonthComparison({ months }: MonthComparisonProps) {
     switch(comparisonType) {
       case 'peakHour':
         data = filteredMonths.map(month => {
-          // Format peak hour for display (e.g., "20:00")
-          return month.peakHour !== undefined ? month.peakHour : 0;
+          // Peak hour on the broadcast day (e.g. 20, or 25 for 01:00 after midnight)
+          return month.peakHour !== undefined ? broadcastHour(month.peakHour, getDayStartHour(month)) : 0;
         });
-        label = 'Piekuur (uur van de dag)';
+        label = 'Piekuur (uur van de uitzenddag)';
         colors = {
           backgroundColor: (context: any) => {
             const chart = context.chart;
@@ -172,7 +173,7 @@ export default function MonthComparison({ months }: MonthComparisonProps) {
             if (comparisonType === 'peakHour') {
               return `Piekuur: ${value}:00`;
             }
-            return `${value.toLocaleString()} kijkers`;
+            return `${value.toLocaleString('nl-NL')} kijkers`;
           }
         }
       }
@@ -182,7 +183,7 @@ export default function MonthComparison({ months }: MonthComparisonProps) {
         beginAtZero: true,
         title: {
           display: true,
-          text: comparisonType === 'peakHour' ? 'Uur van de dag' : 'Aantal kijkers',
+          text: comparisonType === 'peakHour' ? 'Uur van de uitzenddag' : 'Aantal kijkers',
         },
         grid: {
           color: 'rgba(0, 0, 0, 0.05)'
@@ -192,7 +193,7 @@ export default function MonthComparison({ months }: MonthComparisonProps) {
             if (comparisonType === 'peakHour') {
               return `${value}:00`;
             }
-            return value.toLocaleString();
+            return value.toLocaleString('nl-NL');
           }
         }
       },
@@ -316,7 +317,7 @@ export default function MonthComparison({ months }: MonthComparisonProps) {
                 return (
                   <div>
                     <p className="text-xl font-bold text-[#00001F]">
-                      {(maxMonth.totalViewers || 0).toLocaleString()}
+                      {(maxMonth.totalViewers || 0).toLocaleString('nl-NL')}
                     </p>
                     <p className="text-sm text-gray-600">
                       {maxMonth.monthYear}
@@ -347,7 +348,7 @@ export default function MonthComparison({ months }: MonthComparisonProps) {
                 return (
                   <div>
                     <p className="text-xl font-bold text-[#00001F]">
-                      {avgViewers.toLocaleString()} <span className="text-sm font-normal">per dag</span>
+                      {avgViewers.toLocaleString('nl-NL')} <span className="text-sm font-normal">per dag</span>
                     </p>
                     <p className="text-sm text-gray-600">
                       {maxAvgMonth.monthYear}
@@ -369,7 +370,8 @@ export default function MonthComparison({ months }: MonthComparisonProps) {
                 const peakHours: Record<number, number> = {};
                 filteredMonths.forEach(month => {
                   if (month.peakHour !== undefined) {
-                    peakHours[month.peakHour] = (peakHours[month.peakHour] || 0) + 1;
+                    const hour = broadcastHour(month.peakHour, getDayStartHour(month));
+                    peakHours[hour] = (peakHours[hour] || 0) + 1;
                   }
                 });
                 
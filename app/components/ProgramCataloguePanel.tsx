@@ -0,0 +1,260 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { ProcessedMonthData, ProgramCatalogue, TitleRule } from '../types';
+import {
+  TITLE_RULE_TARGET_LABELS,
+  isValidRulePattern,
+  mergeCataloguePrograms,
+  splitCatalogueTitle,
+  summarizeCatalogue,
+  updateCatalogueProgram
+} from '../util/programCatalogue';
+
+interface ProgramCataloguePanelProps {
+  catalogue: ProgramCatalogue;
+  months: ProcessedMonthData[];
+  onChange: (catalogue: ProgramCatalogue) => void;
+}
+
+export default function ProgramCataloguePanel({ catalogue, months, onChange }: ProgramCataloguePanelProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [newRule, setNewRule] = useState<Pick<TitleRule, 'label' | 'pattern' | 'target'>>({ label: '', pattern: '', target: 'title' });
+  const [ruleError, setRuleError] = useState<string | null>(null);
+
+  const summary = summarizeCatalogue(months);
+  const search = searchTerm.toLowerCase();
+  const programs = catalogue.programs
+    .filter(program => !search ||
+      program.name.toLowerCase().includes(search) ||
+      program.series.toLowerCase().includes(search) ||
+      program.titles.some(title => title.toLowerCase().includes(search)))
+    .sort((a, b) => a.series.localeCompare(b.series) || a.name.localeCompare(b.name));
+
+  // Programs in the same series are listed under one heading
+  const seriesSizes = new Map<string, number>();
+  catalogue.programs.forEach(program => seriesSizes.set(program.series, (seriesSizes.get(program.series) || 0) + 1));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : prev.concat(id));
+  };
+
+  const handleMerge = () => {
+    const targetId = selectedIds.includes(mergeTargetId) ? mergeTargetId : selectedIds[0];
+    onChange(mergeCataloguePrograms(catalogue, targetId, selectedIds));
+    setSelectedIds([]);
+    setMergeTargetId('');
+  };
+
+  const updateRules = (rules: TitleRule[]) => onChange({ ...catalogue, rules });
+
+  const handleAddRule = () => {
+    if (!newRule.label.trim() || !isValidRulePattern(newRule.pattern)) {
+      setRuleError('Geef een omschrijving en een geldige reguliere expressie op');
+      return;
+    }
+    updateRules(catalogue.rules.concat({ ...newRule, id: `regel-${Date.now()}`, enabled: true }));
+    setNewRule({ label: '', pattern: '', target: newRule.target });
+    setRuleError(null);
+  };
+
+  const selectedPrograms = catalogue.programs.filter(program => selectedIds.includes(program.id));
+  let previousSeries = '';
+
+  return (
+    <div className="mt-4 bg-white rounded-lg shadow-sm p-4">
+      <h3 className="text-sm font-medium text-[#00001F] mb-1">Programmacatalogus</h3>
+      <p className="text-xs text-gray-600 mb-3">
+        Titels uit de programmaschema&apos;s worden met de regels hieronder aan één programma gekoppeld, zodat bijvoorbeeld
+        &quot;Journaal&quot;, &quot;JOURNAAL herh.&quot; en &quot;Journaal (15)&quot; over alle weken samen geteld worden.
+        Voeg programma&apos;s samen of splits een titel af als de koppeling niet klopt.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Zoek programma, serie of titel"
+          className="flex-1 min-w-[12rem] px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+        />
+        {selectedPrograms.length >= 2 && (
+          <div className="flex items-center gap-2 text-xs">
+            <span>Samenvoegen tot:</span>
+            <select
+              value={mergeTargetId || selectedPrograms[0].id}
+              onChange={(e) => setMergeTargetId(e.target.value)}
+              className="px-1 py-0.5 text-xs border border-gray-300 rounded-md"
+            >
+              {selectedPrograms.map(program => (
+                <option key={program.id} value={program.id}>{program.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleMerge}
+              className="px-2 py-0.5 text-xs text-white bg-[#F47B25] rounded hover:bg-orange-600"
+              type="button"
+            >
+              Samenvoegen ({selectedPrograms.length})
+            </button>
+          </div>
+        )}
+      </div>
+
+      {catalogue.programs.length === 0 ? (
+        <p className="text-xs text-gray-500">Nog geen programma&apos;s; upload een programmaschema om de catalogus te vullen.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-xs text-left">
+            <thead>
+              <tr className="text-gray-600">
+                <th className="px-1 py-1"></th>
+                <th className="px-1 py-1 font-medium">Programma</th>
+                <th className="px-1 py-1 font-medium">Serie</th>
+                <th className="px-1 py-1 font-medium">Titels in schema&apos;s</th>
+                <th className="px-1 py-1 font-medium text-right">Uitzendingen</th>
+                <th className="px-1 py-1 font-medium text-right">Weken</th>
+              </tr>
+            </thead>
+            <tbody>
+              {programs.map(program => {
+                const showSeries = program.series !== previousSeries && (seriesSizes.get(program.series) || 0) > 1;
+                previousSeries = program.series;
+                const counts = summary.get(program.id);
+
+                return (
+                  <Fragment key={program.id}>
+                    {showSeries && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-1 py-1 font-medium text-gray-700">
+                          Serie: {program.series} ({seriesSizes.get(program.series)} programma&apos;s)
+                        </td>
+                      </tr>
+                    )}
+                    <tr className="border-t border-gray-100 align-top">
+                      <td className="px-1 py-1">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(program.id)}
+                          onChange={() => toggleSelected(program.id)}
+                        />
+                      </td>
+                      <td className="px-1 py-1">
+                        <input
+                          type="text"
+                          value={program.name}
+                          onChange={(e) => onChange(updateCatalogueProgram(catalogue, program.id, { name: e.target.value }))}
+                          className="w-full px-1 py-0.5 border border-gray-200 rounded"
+                        />
+                      </td>
+                      <td className="px-1 py-1">
+                        <input
+                          type="text"
+                          value={program.series}
+                          onChange={(e) => onChange(updateCatalogueProgram(catalogue, program.id, { series: e.target.value }))}
+                          className="w-full px-1 py-0.5 border border-gray-200 rounded"
+                        />
+                      </td>
+                      <td className="px-1 py-1">
+                        <div className="flex flex-wrap gap-1">
+                          {program.titles.map(title => (
+                            <span key={title} className="inline-flex items-center bg-gray-100 rounded-full px-2 py-0.5">
+                              {title}
+                              {program.titles.length > 1 && (
+                                <button
+                                  onClick={() => onChange(splitCatalogueTitle(catalogue, program.id, title))}
+                                  className="ml-1 text-gray-500 hover:text-red-700"
+                                  title="Afsplitsen als eigen programma"
+                                  type="button"
+                                >
+                                  ✕
+                                </button>
+                              )}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-1 py-1 text-right">{counts?.broadcasts || 0}</td>
+                      <td className="px-1 py-1 text-right">{counts?.weeks || 0}</td>
+                    </tr>
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h4 className="text-xs font-medium text-[#00001F] mt-4 mb-1">Normalisatieregels</h4>
+      <p className="text-xs text-gray-600 mb-2">
+        Tekst die een regel herkent, wordt uit de titel gehaald om het programma te vinden, of uit de programmanaam om de serie te vinden.
+        Gewijzigde regels gelden voor titels die daarna binnenkomen.
+      </p>
+      <table className="w-full text-xs text-left mb-2">
+        <tbody>
+          {catalogue.rules.map(rule => (
+            <tr key={rule.id} className="border-t border-gray-100">
+              <td className="px-1 py-1">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => updateRules(catalogue.rules.map(existing => existing.id === rule.id ? { ...rule, enabled: !rule.enabled } : existing))}
+                />
+              </td>
+              <td className="px-1 py-1">{rule.label}</td>
+              <td className="px-1 py-1 font-mono text-gray-500">{rule.pattern}</td>
+              <td className="px-1 py-1 text-gray-500">{TITLE_RULE_TARGET_LABELS[rule.target]}</td>
+              <td className="px-1 py-1 text-right">
+                {!rule.builtIn && (
+                  <button
+                    onClick={() => updateRules(catalogue.rules.filter(existing => existing.id !== rule.id))}
+                    className="text-gray-500 hover:text-red-700"
+                    type="button"
+                  >
+                    Verwijderen
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={newRule.label}
+          onChange={(e) => setNewRule({ ...newRule, label: e.target.value })}
+          placeholder="Omschrijving"
+          className="px-2 py-1 text-xs border border-gray-300 rounded-md"
+        />
+        <input
+          type="text"
+          value={newRule.pattern}
+          onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+          placeholder="Reguliere expressie, bijv. \(live\)"
+          className="px-2 py-1 text-xs font-mono border border-gray-300 rounded-md"
+        />
+        <select
+          value={newRule.target}
+          onChange={(e) => setNewRule({ ...newRule, target: e.target.value as TitleRule['target'] })}
+          className="px-1 py-1 text-xs border border-gray-300 rounded-md"
+        >
+          {(Object.keys(TITLE_RULE_TARGET_LABELS) as TitleRule['target'][]).map(target => (
+            <option key={target} value={target}>{TITLE_RULE_TARGET_LABELS[target]}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAddRule}
+          className="px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+          type="button"
+        >
+          Regel toevoegen
+        </button>
+      </div>
+      {ruleError && <p className="text-xs text-red-700 mt-1">{ruleError}</p>}
+    </div>
+  );
+}
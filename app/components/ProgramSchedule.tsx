@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { ProcessedMonthData, ProgramData } from '../types';
+import { MINUTES_PER_HOUR, broadcastHour, getDayStartHour, programStartMinute } from '../util/broadcastDay';
 
 interface ProgramScheduleProps {
   data: ProcessedMonthData;
@@ -13,6 +14,7 @@ export default function ProgramSchedule({ data }: ProgramScheduleProps) {
   const [filteredPrograms, setFilteredPrograms] = useState<ProgramData[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterRepeat, setFilterRepeat] = useState(false);
+  const startHour = getDayStartHour(data);
   
   // Find dates with programming data
   useEffect(() => {
@@ -51,11 +53,11 @@ export default function ProgramSchedule({ data }: ProgramScheduleProps) {
       filtered = filtered.filter(program => !program.isRepeat);
     }
     
-    // Sort by start time
-    filtered.sort((a, b) => a.startTime.localeCompare(b.startTime));
+    // Sort by start time in the broadcast day, so programs after midnight come last
+    filtered.sort((a, b) => programStartMinute(a, startHour) - programStartMinute(b, startHour));
     
     setFilteredPrograms(filtered);
-  }, [programs, searchTerm, filterRepeat]);
+  }, [programs, searchTerm, filterRepeat, startHour]);
 
   // Handle date selection change
   const handleDateChange = (date: string) => {
@@ -64,12 +66,13 @@ export default function ProgramSchedule({ data }: ProgramScheduleProps) {
     setPrograms(selectedDay?.programs || []);
   };
 
-  // Group programs by hour for visual display
+  // Group programs by broadcast hour (24, 25, ... after midnight) for visual display
   const getProgramsByHour = () => {
     const hourGroups: Record<string, ProgramData[]> = {};
     
     filteredPrograms.forEach(program => {
-      const hour = program.startTime.split(':')[0];
+      const index = Math.floor(programStartMinute(program, startHour) / MINUTES_PER_HOUR);
+      const hour = broadcastHour(index, startHour).toString().padStart(2, '0');
       if (!hourGroups[hour]) {
         hourGroups[hour] = [];
       }
@@ -195,6 +198,9 @@ export default function ProgramSchedule({ data }: ProgramScheduleProps) {
                           {program.category && (
                             <span className="ml-2 text-xs font-normal bg-blue-100 text-blue-800 rounded-full px-2 py-0.5">{program.category}</span>
                           )}
+                          {program.genre && (
+                            <span className="ml-2 text-xs font-normal bg-purple-100 text-purple-800 rounded-full px-2 py-0.5">{program.genre}</span>
+                          )}
                         </div>
                         {program.endTime && (
                           <div className="text-sm text-gray-500">
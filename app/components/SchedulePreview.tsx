@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { DailyData, ImportDiagnostics, ProcessedMonthData, ScheduleData } from '../types';
+import { countDiagnostics } from '../util/diagnostics';
+import { compareDates } from '../util/dateUtils';
+import { SCHEDULE_LAYOUT_LABELS } from '../util/scheduleLayout';
+
+interface SchedulePreviewProps {
+  fileName: string;
+  schedule: ScheduleData;
+  diagnostics: ImportDiagnostics;
+  existingData: ProcessedMonthData[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Warnings and errors listed in the preview; the rest is in the import report
+const MAX_PREVIEW_DIAGNOSTICS = 5;
+
+export default function SchedulePreview({ fileName, schedule, diagnostics, existingData, onConfirm, onCancel }: SchedulePreviewProps) {
+  const [showDays, setShowDays] = useState(false);
+
+  const dates = Array.from(schedule.days.keys()).sort(compareDates);
+  const programCount = dates.reduce((total, date) => total + (schedule.days.get(date) || []).length, 0);
+  const weeks = schedule.weeks && schedule.weeks.length > 0 ? schedule.weeks : [schedule.weekNumber];
+
+  // Days of the schedule that are stored with viewer data, and whether they have programs already
+  const storedDays = new Map<string, DailyData>();
+  existingData.forEach(month => month.days.forEach(day => storedDays.set(day.date, day)));
+  const matchedDates = dates.filter(date => storedDays.has(date));
+  const updatedDates = matchedDates.filter(date => (storedDays.get(date)!.programs || []).length > 0);
+
+  const counts = countDiagnostics(diagnostics);
+  const problems = diagnostics.entries.filter(entry => entry.level !== 'info');
+
+  return (
+    <div className="mb-4 p-3 border border-[#F47B25] rounded-md bg-orange-50">
+      <h3 className="text-sm font-medium text-[#00001F] mb-1">Voorbeeld van de programmering</h3>
+      <p className="text-xs text-gray-600 mb-3">
+        Controleer wat er in <span className="font-medium">{fileName}</span> is gevonden. Er wordt pas iets opgeslagen als je de import bevestigt.
+      </p>
+
+      <div className="p-2 bg-white border border-orange-100 rounded text-xs text-gray-700">
+        <p>
+          <span className="font-medium">{weeks.length > 1 ? `Weken ${weeks.join(', ')}` : `Week ${weeks[0]}`}/{schedule.year}</span>
+          {schedule.layout && <> ({SCHEDULE_LAYOUT_LABELS[schedule.layout]})</>}: {programCount} programma&apos;s op {dates.length} dagen
+          {dates.length > 0 && <> ({dates[0]} t/m {dates[dates.length - 1]})</>}
+        </p>
+        <p className="mt-1 text-gray-600">
+          {matchedDates.length} dagen met opgeslagen kijkcijfers
+          {updatedDates.length > 0 && <>, waarvan {updatedDates.length} met programma&apos;s die worden bijgewerkt</>}
+          {dates.length > matchedDates.length && <>; {dates.length - matchedDates.length} dagen zonder kijkcijfers, die hun programma&apos;s krijgen als hun kijkcijfers worden geïmporteerd</>}.
+        </p>
+
+        <button
+          onClick={() => setShowDays(!showDays)}
+          className="mt-1 text-xs text-[#00001F] hover:underline"
+          type="button"
+        >
+          {showDays ? 'Dagen verbergen' : 'Dagen tonen'}
+        </button>
+        {showDays && (
+          <div className="mt-1 max-h-40 overflow-y-auto">
+            <table className="w-full text-xs text-left">
+              <tbody>
+                {dates.map(date => {
+                  const programs = schedule.days.get(date) || [];
+                  return (
+                    <tr key={date} className="border-t border-gray-100">
+                      <td className="px-1">{date}</td>
+                      <td className="px-1 text-right">{programs.length} programma&apos;s</td>
+                      <td className="px-1 text-gray-500 truncate">{programs.slice(0, 3).map(program => `${program.startTime} ${program.title}`).join(', ')}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-3 text-xs text-gray-600">
+        Importdiagnose: {counts.error} fouten, {counts.warning} waarschuwingen, {counts.info} meldingen
+        {problems.length > 0 && (
+          <ul className="mt-1 list-disc list-inside">
+            {problems.slice(0, MAX_PREVIEW_DIAGNOSTICS).map((entry, index) => (
+              <li key={index} className={entry.level === 'error' ? 'text-red-700' : 'text-yellow-800'}>
+                {entry.row ? `rij ${entry.row}: ` : ''}{entry.date ? `${entry.date}: ` : ''}{entry.message}
+              </li>
+            ))}
+            {problems.length > MAX_PREVIEW_DIAGNOSTICS && (
+              <li className="list-none">… en {problems.length - MAX_PREVIEW_DIAGNOSTICS} meer (zie importdiagnose)</li>
+            )}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-3 flex space-x-2">
+        <button
+          onClick={onConfirm}
+          disabled={programCount === 0}
+          className="px-3 py-1 text-xs font-medium text-white bg-[#F47B25] rounded hover:bg-[#F9A65E] disabled:opacity-50"
+          type="button"
+        >
+          Importeren ({programCount})
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+          type="button"
+        >
+          Verwerpen
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { ProgramData, ScheduleData } from '../types';
+import { getDayStartHour, programStartMinute } from '../util/broadcastDay';
 
 interface ScheduleViewerProps {
   scheduleData: ScheduleData | null;
@@ -87,8 +88,9 @@ export default function ScheduleViewer({ scheduleData }: ScheduleViewerProps) {
         if (weekA !== weekB) return weekA - weekB;
       }
       
-      // Then by time
-      const timeComp = a.startTime.localeCompare(b.startTime);
+      // Then by time in the broadcast day
+      const startHour = getDayStartHour(scheduleData);
+      const timeComp = programStartMinute(a, startHour) - programStartMinute(b, startHour);
       if (timeComp !== 0) return timeComp;
       
       // Then by sequence
@@ -213,6 +215,11 @@ export default function ScheduleViewer({ scheduleData }: ScheduleViewerProps) {
                             {program.category}
                           </span>
                         )}
+                        {program.genre && (
+                          <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800">
+                            {program.genre}
+                          </span>
+                        )}
                         {program.notes && (
                           <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
                             {program.notes}
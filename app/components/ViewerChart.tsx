@@ -15,7 +15,12 @@ import {
   ChartOptions
 } from 'chart.js';
 import { Line, Bar } from 'react-chartjs-2';
-import { ProcessedMonthData, DailyData } from '../types';
+import { ProcessedMonthData, DailyData, ReconciliationTolerances } from '../types';
+import { MINUTES_PER_HOUR, getBroadcastHourLabels, getBroadcastSlotLabels, getDayStartHour, rollUpSlots } from '../util/broadcastDay';
+import { AGE_GROUP_ORIGIN_LABELS, ageGroupOrigin, describeDaysSources, describeHourSource, describeSource } from '../util/provenance';
+import { AGE_GROUP_KEYS, ageGroupLabel } from '../util/excelProcessor';
+import { describeCalculationDifference } from '../util/calculationMode';
+import { DEFAULT_RECONCILIATION_TOLERANCES, describeReconciliation, findFlaggedDays } from '../util/reconciliation';
 
 // Register ChartJS components
 ChartJS.register(
@@ -31,17 +36,20 @@ ChartJS.register(
 
 interface ViewerChartProps {
   data: ProcessedMonthData;
+  tolerances?: ReconciliationTolerances; // Days outside these are marked in the daily view
 }
 
 type ViewMode = 'hourly' | 'daily';
 type HourlyDataType = 'average' | 'max' | 'daily' | 'total';
+type Resolution = 'hour' | 'slot';
 
-export default function ViewerChart({ data }: ViewerChartProps) {
+export default function ViewerChart({ data, tolerances = DEFAULT_RECONCILIATION_TOLERANCES }: ViewerChartProps) {
   // States for controlling chart display
   const [chartType, setChartType] = useState<'bar' | 'line'>('bar');
   const [viewMode, setViewMode] = useState<ViewMode>('hourly');
   const [dataType, setDataType] = useState<HourlyDataType>('total');
   const [selectedDay, setSelectedDay] = useState<string>(data.days[0]?.date || '');
+  const [resolution, setResolution] = useState<Resolution>('hour');
   
   // Define Kompas brand colors
   const kompasColors = {
@@ -52,8 +60,39 @@ export default function ViewerChart({ data }: ViewerChartProps) {
     gradient: ['#F47B25', '#F9A65E', '#D97378', '#F3B8BA']
   };
 
-  // Generate hourly labels (00:00 - 23:00)
-  const hourlyLabels = Array.from({ length: 24 }, (_, i) => `${i.toString().padStart(2, '0')}:00`);
+  // Generate hourly labels in broadcast order (e.g. 02:00 - 25:00)
+  const hourlyLabels = getBroadcastHourLabels(getDayStartHour(data));
+  
+  // Data finer than an hour can also be shown per slot (e.g. 02:00, 02:15, ...)
+  const slotMinutes = data.slotMinutes || MINUTES_PER_HOUR;
+  const hasSlots = slotMinutes < MINUTES_PER_HOUR && !!data.totalViewersPerSlot;
+  const showSlots = hasSlots && resolution === 'slot';
+  const slotUnit = slotMinutes === 15 ? 'kwartier' : `${slotMinutes} minuten`;
+  const timeUnit = showSlots ? slotUnit : 'uur';
+
+  // Days whose hours do not add up to the daily total
+  const flaggedDays = new Map(findFlaggedDays(data, tolerances).map(result => [result.date, result]));
+  const isFlagged = (index: number) => flaggedDays.has(data.days[index]?.date);
+
+  // Where the value under the cursor in the hourly chart comes from
+  const describeHourlyValue = (index: number): string[] => {
+    const hourIndex = showSlots ? Math.floor(index * slotMinutes / MINUTES_PER_HOUR) : index;
+    
+    if (dataType === 'daily') {
+      const selectedDayData = data.days.find(day => day.date === selectedDay);
+      return selectedDayData
+        ? [...describeHourSource(selectedDayData, hourIndex), ...describeCalculationDifference(selectedDayData, hourIndex)]
+        : [];
+    }
+    
+    // A maximum comes from one day; look it up
+    if (dataType === 'max' && !showSlots) {
+      const maxDay = data.days.find(day => day.hourlyViewers[hourIndex] === data.maxViewersPerHour[hourIndex]);
+      return maxDay ? [`Op ${maxDay.date}`, ...describeHourSource(maxDay, hourIndex)] : [];
+    }
+    
+    return describeDaysSources(data.days);
+  };
 
   // Handle clicking on a day in the daily chart
   const handleDayClick = useCallback((dayIndex: number) => {
@@ -67,7 +106,7 @@ export default function ViewerChart({ data }: ViewerChartProps) {
   // Prepare data for hourly view
   const getHourlyChartData = () => {
     const baseData = {
-      labels: hourlyLabels,
+      labels: showSlots ? getBroadcastSlotLabels(getDayStartHour(data), slotMinutes) : hourlyLabels,
       datasets: [] as any[]
     };
 
@@ -92,7 +131,9 @@ export default function ViewerChart({ data }: ViewerChartProps) {
         datasets: [
           {
             label: `Kijkers op ${selectedDay}`,
-            data: selectedDayData.hourlyViewers,
+            data: showSlots
+              ? rollUpSlots(selectedDayData.slotViewers || selectedDayData.hourlyViewers, selectedDayData.slotMinutes || MINUTES_PER_HOUR, slotMinutes)
+              : selectedDayData.hourlyViewers,
             backgroundColor: (context: any) => {
               const chart = context.chart;
               const {ctx} = chart;
@@ -111,8 +152,8 @@ export default function ViewerChart({ data }: ViewerChartProps) {
         ...baseData,
         datasets: [
           {
-            label: 'Totaal aantal kijkers per uur',
-            data: data.totalViewersPerHour,
+            label: `Totaal aantal kijkers per ${timeUnit}`,
+            data: showSlots ? data.totalViewersPerSlot : data.totalViewersPerHour,
             backgroundColor: (context: any) => {
               const chart = context.chart;
               const {ctx} = chart;
@@ -130,8 +171,8 @@ export default function ViewerChart({ data }: ViewerChartProps) {
         ...baseData,
         datasets: [
           {
-            label: 'Gemiddeld aantal kijkers per uur',
-            data: data.averageHourlyViewers,
+            label: `Gemiddeld aantal kijkers per ${timeUnit}`,
+            data: showSlots ? data.averageSlotViewers : data.averageHourlyViewers,
             backgroundColor: (context: any) => {
               const chart = context.chart;
               const {ctx} = chart;
@@ -148,8 +189,8 @@ export default function ViewerChart({ data }: ViewerChartProps) {
       ...baseData,
       datasets: [
         {
-          label: 'Maximum aantal kijkers per uur',
-          data: data.maxViewersPerHour,
+          label: `Maximum aantal kijkers per ${timeUnit}`,
+          data: showSlots ? data.maxViewersPerSlot : data.maxViewersPerHour,
           backgroundColor: (context: any) => {
             const chart = context.chart;
             const {ctx} = chart;
@@ -180,10 +221,14 @@ export default function ViewerChart({ data }: ViewerChartProps) {
           label: 'Totaal aantal kijkers per dag',
           data: data.days.map(day => day.totalViewers),
           backgroundColor: (context: any) => {
+            // Days that fail the reconciliation stand out in red
+            if (isFlagged(context.dataIndex)) return 'rgba(220, 38, 38, 0.8)';
             const chart = context.chart;
             const {ctx} = chart;
             return createGradient(ctx, 'rgba(244, 123, 37, 0.8)', 'rgba(249, 166, 94, 0.4)');
           },
+          pointBackgroundColor: (context: any) => isFlagged(context.dataIndex) ? '#DC2626' : '#F47B25',
+          pointRadius: (context: any) => isFlagged(context.dataIndex) ? 5 : 3,
           borderColor: '#F47B25',
           borderWidth: 1,
         }
@@ -212,7 +257,10 @@ export default function ViewerChart({ data }: ViewerChartProps) {
         callbacks: {
           label: function(context) {
             const value = context.raw as number;
-            return `${value.toLocaleString()} kijkers`;
+            return `${value.toLocaleString('nl-NL')} kijkers`;
+          },
+          afterLabel: function(context) {
+            return describeHourlyValue(context.dataIndex);
           }
         }
       }
@@ -231,7 +279,7 @@ export default function ViewerChart({ data }: ViewerChartProps) {
       x: {
         title: {
           display: true,
-          text: 'Uur van de dag',
+          text: 'Uur van de uitzenddag',
         },
         grid: {
           color: 'rgba(0, 0, 0, 0.05)'
@@ -259,7 +307,15 @@ export default function ViewerChart({ data }: ViewerChartProps) {
         callbacks: {
           label: function(context) {
             const value = context.raw as number;
-            return `${value.toLocaleString()} kijkers`;
+            return `${value.toLocaleString('nl-NL')} kijkers`;
+          },
+          afterLabel: function(context) {
+            const lines = describeSource(data.days[context.dataIndex]?.source);
+            const reconciliation = flaggedDays.get(data.days[context.dataIndex]?.date);
+            if (reconciliation) {
+              lines.unshift(`Afwijking: ${describeReconciliation(reconciliation)}`);
+            }
+            return lines;
           }
         }
       }
@@ -327,6 +383,18 @@ export default function ViewerChart({ data }: ViewerChartProps) {
     }
   }
 
+  // Target groups with numbers, each marked as measured or estimated
+  const ageGroupRows = data.averageAgeGroups
+    ? AGE_GROUP_KEYS
+      .map(key => ({
+        key,
+        origin: ageGroupOrigin(data, key),
+        averagePerHour: Math.round(data.averageAgeGroups!.reduce((sum, hourData) => sum + (hourData ? hourData[key] : 0), 0) / 24),
+        atPeakHour: data.averageAgeGroups![data.peakHour]?.[key] || 0
+      }))
+      .filter(row => row.origin !== null)
+    : [];
+
   // Determine if we're showing combined data
   const isAggregatedView = data.monthYear.includes('Samenvatting') || data.monthYear.includes('-');
   const viewersLabel = isAggregatedView ? "kijkers in de periode" : "kijkers in de maand";
@@ -442,6 +510,37 @@ export default function ViewerChart({ data }: ViewerChartProps) {
             </div>
           </div>
         
+        {/* Resolution, only for data finer than an hour */}
+        {viewMode === 'hourly' && hasSlots && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tijdvak:
+            </label>
+            <div className="inline-flex rounded-md shadow-sm">
+              <button
+                className={`px-3 py-2 text-sm font-medium border ${
+                  resolution === 'hour'
+                    ? 'bg-[#F47B25] text-white border-[#F47B25]'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                } rounded-l-md`}
+                onClick={() => setResolution('hour')}
+              >
+                Uur
+              </button>
+              <button
+                className={`px-3 py-2 text-sm font-medium border ${
+                  resolution === 'slot'
+                    ? 'bg-[#F47B25] text-white border-[#F47B25]'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                } rounded-r-md`}
+                onClick={() => setResolution('slot')}
+              >
+                {slotMinutes === 15 ? 'Kwartier' : `${slotMinutes} min`}
+              </button>
+            </div>
+          </div>
+        )}
+        
       </div>
       
       {/* Chart */}
@@ -452,6 +551,9 @@ export default function ViewerChart({ data }: ViewerChartProps) {
               <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
             </svg>
             <span>Klik op een dag in de grafiek om details per uur te bekijken</span>
+            {flaggedDays.size > 0 && (
+              <span className="ml-3 text-red-700">{flaggedDays.size} rood gemarkeerde dagen sluiten niet aan op het dagtotaal</span>
+            )}
           </div>
         )}
         
@@ -518,11 +620,11 @@ export default function ViewerChart({ data }: ViewerChartProps) {
             </div>
             <div className="flex justify-between">
               <dt className="text-sm text-gray-600">Totaal aantal {viewersLabel}:</dt>
-              <dd className="text-sm font-medium">{totalMonthlyViewers.toLocaleString()}</dd>
+              <dd className="text-sm font-medium">{totalMonthlyViewers.toLocaleString('nl-NL')}</dd>
             </div>
             <div className="flex justify-between">
               <dt className="text-sm text-gray-600">Gemiddeld per dag:</dt>
-              <dd className="text-sm font-medium">{averageDailyViewers.toLocaleString()}</dd>
+              <dd className="text-sm font-medium">{averageDailyViewers.toLocaleString('nl-NL')}</dd>
             </div>
             <div className="flex justify-between">
               <dt className="text-sm text-gray-600">Dag met meeste kijkers:</dt>
@@ -542,23 +644,55 @@ export default function ViewerChart({ data }: ViewerChartProps) {
             </div>
             <div className="flex justify-between">
               <dt className="text-sm text-gray-600">Aantal kijkers op piekuur:</dt>
-              <dd className="text-sm font-medium">{maxHourlyViewers.toLocaleString()}</dd>
+              <dd className="text-sm font-medium">{maxHourlyViewers.toLocaleString('nl-NL')}</dd>
             </div>
             <div className="flex justify-between">
               <dt className="text-sm text-gray-600">Gemiddeld aantal kijkers per uur:</dt>
-              <dd className="text-sm font-medium">{Math.round(totalHourlyViewers / 24).toLocaleString()}</dd>
+              <dd className="text-sm font-medium">{Math.round(totalHourlyViewers / 24).toLocaleString('nl-NL')}</dd>
             </div>
             {dataType === 'daily' && (
               <div className="flex justify-between">
                 <dt className="text-sm text-gray-600">Totaal kijkers op {selectedDay}:</dt>
                 <dd className="text-sm font-medium">
-                  {data.days.find(day => day.date === selectedDay)?.totalViewers.toLocaleString() || '0'}
+                  {data.days.find(day => day.date === selectedDay)?.totalViewers.toLocaleString('nl-NL') || '0'}
                 </dd>
               </div>
             )}
           </dl>
         </div>
       </div>
+
+      {/* Target groups */}
+      {ageGroupRows.length > 0 && (
+        <div className="mt-6 bg-gray-50 p-4 rounded-lg">
+          <h3 className="text-lg font-medium text-gray-900 mb-3">Doelgroepen</h3>
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="text-gray-600">
+                <th className="py-1 font-normal">Doelgroep</th>
+                <th className="py-1 font-normal text-right">Gemiddeld per uur</th>
+                <th className="py-1 font-normal text-right">Gemiddeld op piekuur</th>
+                <th className="py-1 pl-4 font-normal">Bron</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ageGroupRows.map(row => (
+                <tr key={row.key} className={row.origin === 'measured' ? '' : 'text-yellow-800'}>
+                  <td className="py-1 font-medium">{ageGroupLabel(row.key)}</td>
+                  <td className="py-1 text-right">{row.averagePerHour.toLocaleString('nl-NL')}</td>
+                  <td className="py-1 text-right">{row.atPeakHour.toLocaleString('nl-NL')}</td>
+                  <td className="py-1 pl-4">{AGE_GROUP_ORIGIN_LABELS[row.origin!]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {ageGroupRows.some(row => row.origin !== 'measured') && (
+            <p className="text-xs text-yellow-800 mt-2">
+              Geschatte doelgroepen komen uit een gesimuleerde verdeling over de uren, niet uit een Kdh%-kolom van het bestand.
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -5,9 +5,16 @@ import DataUploader from './components/DataUploader';
 import ViewerChart from './components/ViewerChart';
 import MonthComparison from './components/MonthComparison';
 import ProgramSchedule from './components/ProgramSchedule';
-import { ProcessedMonthData } from './types';
+import DataQualityPanel from './components/DataQualityPanel';
+import ProgramCataloguePanel from './components/ProgramCataloguePanel';
+import CategoryRulesPanel from './components/CategoryRulesPanel';
+import { CalculationMode, CategoryRule, ProcessedMonthData, ProgramCatalogue, ReconciliationTolerances, ScheduleData } from './types';
 import { aggregateMonthsData } from './util/dataAggregator';
-import { saveProcessedData, loadProcessedData, clearProcessedData } from './util/storage';
+import { saveProcessedData, loadProcessedData, clearProcessedData, saveProgramData, loadProgramData, mergeScheduleData, mergeViewerAndProgramData, saveReconciliationTolerances, loadReconciliationTolerances, saveCalculationMode, loadCalculationMode, saveProgramCatalogue, loadProgramCatalogue, saveCategoryRules, loadCategoryRules } from './util/storage';
+import { DEFAULT_RECONCILIATION_TOLERANCES } from './util/reconciliation';
+import { CALCULATION_MODES, CALCULATION_MODE_LABELS, DEFAULT_CALCULATION_MODE, applyCalculationModeToMonth } from './util/calculationMode';
+import { DEFAULT_CATEGORY_RULES, applyCategoryRulesToMonths } from './util/categoryRules';
+import { addCatalogueTitles, collectProgramTitles, createProgramCatalogue, linkProgramsToCatalogue } from './util/programCatalogue';
 
 // Helper function to sort months chronologically
 const sortMonthsChronologically = (months: ProcessedMonthData[]): ProcessedMonthData[] => {
@@ -52,10 +59,21 @@ export default function Home() {
   const [activeTab, setActiveTab] = useState<'viewers' | 'programs'>('viewers');
   const [loading, setLoading] = useState(true);
   const [logo, setLogo] = useState<string | null>(null);
+  const [tolerances, setTolerances] = useState<ReconciliationTolerances>(DEFAULT_RECONCILIATION_TOLERANCES);
+  const [calculationMode, setCalculationMode] = useState<CalculationMode>(DEFAULT_CALCULATION_MODE);
+  const [catalogue, setCatalogue] = useState<ProgramCatalogue>(createProgramCatalogue);
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>(DEFAULT_CATEGORY_RULES);
+  const [schedule, setSchedule] = useState<ScheduleData | null>(null);
 
   // Load saved data on component mount
   useEffect(() => {
     try {
+      setTolerances(loadReconciliationTolerances());
+      setCalculationMode(loadCalculationMode());
+      setCatalogue(loadProgramCatalogue());
+      setCategoryRules(loadCategoryRules());
+      setSchedule(loadProgramData());
+      
       // Load viewer data
       let savedData = loadProcessedData();
       
@@ -82,6 +100,22 @@ export default function Home() {
     }
   }, [monthsData, loading]);
 
+  // Add new schedule titles to the program catalogue and link every program to it
+  useEffect(() => {
+    if (loading) return;
+    
+    const updatedCatalogue = addCatalogueTitles(catalogue, collectProgramTitles(monthsData));
+    if (updatedCatalogue !== catalogue) {
+      handleCatalogueChange(updatedCatalogue);
+      return;
+    }
+    
+    const linkedData = linkProgramsToCatalogue(monthsData, catalogue);
+    if (linkedData !== monthsData) {
+      setMonthsData(linkedData);
+    }
+  }, [monthsData, catalogue, loading]);
+
   // Handle data updates and save to storage
   const handleDataProcessed = (setter: (prevData: ProcessedMonthData[]) => ProcessedMonthData[]) => {
     setMonthsData(prev => {
@@ -91,11 +125,45 @@ export default function Home() {
     });
   };
 
+  // Store the imported schedule with the earlier ones, so its programs also reach
+  // days whose viewer data is imported later, and add them to the stored days
+  const handleScheduleProcessed = (incoming: ScheduleData) => {
+    const updated = mergeScheduleData(schedule, incoming);
+    setSchedule(updated);
+    saveProgramData(updated);
+    handleDataProcessed(prev => mergeViewerAndProgramData(prev, incoming));
+  };
+
+  const handleCatalogueChange = (updated: ProgramCatalogue) => {
+    setCatalogue(updated);
+    saveProgramCatalogue(updated);
+  };
+
+  // Categorise all stored programs again with the changed rules
+  const handleCategoryRulesChange = (updated: CategoryRule[]) => {
+    setCategoryRules(updated);
+    saveCategoryRules(updated);
+    setMonthsData(prev => applyCategoryRulesToMonths(prev, updated));
+  };
+
+  const handleTolerancesChange = (updated: ReconciliationTolerances) => {
+    setTolerances(updated);
+    saveReconciliationTolerances(updated);
+  };
+
+  // Recalculate all stored months from their raw inputs; no re-upload needed
+  const handleCalculationModeChange = (mode: CalculationMode) => {
+    setCalculationMode(mode);
+    saveCalculationMode(mode);
+    setMonthsData(prev => prev.map(month => applyCalculationModeToMonth(month, mode)));
+  };
+
   // Clear all data from storage
   const handleClearAllData = () => {
     if (confirm('Weet u zeker dat u alle gegevens wilt wissen? Dit kan niet ongedaan worden gemaakt.')) {
       clearProcessedData();
       setMonthsData([]);
+      setSchedule(null);
       setSelectedMonths([]);
     }
   };
@@ -119,19 +187,16 @@ export default function Home() {
     
     // If showing aggregate, we always aggregate all months, regardless of selection
     if (showAggregate) {
-      console.log("AGGREGATING ALL MONTHS DATA:", monthsData.length, "months");
       return aggregateMonthsData(monthsData);
     }
     
     // If not showing aggregate but we have selected months, show the selected month
     if (selectedMonths.length > 0) {
       const selectedData = monthsData.find(data => data.monthYear === selectedMonths[0]);
-      console.log("SHOWING SINGLE MONTH:", selectedMonths[0]);
       return selectedData || null;
     }
     
     // Default: show the first month
-    console.log("DEFAULT: SHOWING FIRST MONTH:", monthsData[0]?.monthYear);
     return monthsData[0] || null;
   };
 
@@ -264,6 +329,20 @@ export default function Home() {
                     />
                     <span className="ml-2 text-sm">Vergelijk maanden</span>
                   </label>
+                  
+                  <label className="inline-flex items-center">
+                    <span className="mr-2 text-sm">Rekenmethode:</span>
+                    <select
+                      id="calculation-mode"
+                      value={calculationMode}
+                      onChange={(e) => handleCalculationModeChange(e.target.value as CalculationMode)}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-[#F47B25] focus:border-[#F47B25]"
+                    >
+                      {CALCULATION_MODES.map(mode => (
+                        <option key={mode} value={mode}>{CALCULATION_MODE_LABELS[mode]}</option>
+                      ))}
+                    </select>
+                  </label>
                 </div>
               </div>
             </div>
@@ -273,7 +352,13 @@ export default function Home() {
             {/* File uploader section */}
             <div className="md:col-span-1">
               <DataUploader 
+                existingData={monthsData}
+                reconciliationTolerances={tolerances}
+                calculationMode={calculationMode}
+                categoryRules={categoryRules}
+                schedule={schedule}
                 onDataProcessed={handleDataProcessed}
+                onScheduleProcessed={handleScheduleProcessed}
                 onClearAll={handleClearAllData}
               />
             </div>
@@ -295,7 +380,19 @@ export default function Home() {
                   showComparison ? (
                     <MonthComparison months={monthsData} />
                   ) : activeData ? (
-                    <ViewerChart data={activeData} />
+                    <>
+                      {activeData.conflictingDates && (
+                        <div className="mb-4 p-3 bg-yellow-100 text-yellow-800 text-sm rounded-md">
+                          Deze datums staan met verschillende cijfers in meer dan één maand; de eerste versie is gebruikt: {activeData.conflictingDates.join(', ')}
+                        </div>
+                      )}
+                      <ViewerChart data={activeData} tolerances={tolerances} />
+                      <DataQualityPanel
+                        data={activeData}
+                        tolerances={tolerances}
+                        onTolerancesChange={handleTolerancesChange}
+                      />
+                    </>
                   ) : (
                     <div className="bg-white rounded-lg shadow-sm p-6 text-center h-96 flex flex-col justify-center">
                       <p className="text-gray-500">
@@ -305,7 +402,19 @@ export default function Home() {
                   )
                 ) : (
                   activeData ? (
-                    <ProgramSchedule data={activeData} />
+                    <>
+                      <ProgramSchedule data={activeData} />
+                      <ProgramCataloguePanel
+                        catalogue={catalogue}
+                        months={monthsData}
+                        onChange={handleCatalogueChange}
+                      />
+                      <CategoryRulesPanel
+                        rules={categoryRules}
+                        months={monthsData}
+                        onChange={handleCategoryRulesChange}
+                      />
+                    </>
                   ) : (
                     <div className="bg-white rounded-lg shadow-sm p-6 text-center h-96 flex flex-col justify-center">
                       <p className="text-gray-500">
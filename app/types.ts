@@ -4,50 +4,241 @@ export interface AgeGroupData {
   'viewers65Plus': number;  // 65+
 }
 
+export type AgeGroupKey = keyof AgeGroupData;
+
 export interface ProgramData {
   id?: string;         // Unique identifier
   title: string;       // Program title
   startTime: string;   // HH:MM format
+  startMinute?: number; // Minutes after the start of the broadcast day, e.g. 1410 for 01:30 on a day from 02:00
   endTime?: string;    // HH:MM format if available
   duration?: number;   // Duration in minutes if known
   day?: string;        // Date string (DD-MM-YYYY)
   dayOfWeek?: string;  // Day of week
   category?: string;   // Program category
+  genre?: string;      // Program genre
   isRepeat?: boolean;  // Whether it's a repeat/rerun
+  fileClassification?: ProgramClassification; // Category, genre and repeat flag from the schedule itself, before the category rules
   notes?: string;      // Additional notes
   sequence?: number;   // For multiple programs at same time
   originalTime?: string; // Original time string from source
   timePoint?: string;  // Time reference for special cases
   week?: number;       // Week number for multi-week schedules
+  catalogueId?: string; // Canonical program in the program catalogue
+}
+
+export interface ProgramClassification {
+  category?: string;
+  genre?: string;
+  isRepeat?: boolean;
+}
+
+// A categorisation rule: programs whose title, start time and broadcast day match
+// get the category, genre and repeat flag of the rule
+export interface CategoryRule {
+  id: string;
+  label: string;
+  matchType: 'keyword' | 'regex';
+  pattern: string;             // Keywords (comma-separated) or a regular expression on the title; empty matches every title
+  fromTime?: string;           // Time window of the start (HH:MM); may run past midnight, e.g. 22:00-02:00
+  toTime?: string;
+  weekdays?: number[];         // Days of the broadcast date, 0 = Sunday … 6 = Saturday; empty means every day
+  assign: ProgramClassification;
+  enabled: boolean;
+  builtIn?: boolean;           // Default rule; can be switched off but not removed
+}
+
+// Where a viewer value comes from: the "Kijkcijfers per programma" column of the
+// file, or computed as TOTAL × Dagcijfers
+export type ValueOrigin = 'file' | 'computed';
+
+// How the hourly viewers are obtained: the "Kijkcijfers per programma" values of the
+// file, recomputed as TOTAL × Dagcijfers, or recomputed with the differences shown
+export type CalculationMode = 'file' | 'recompute' | 'compare';
+
+export interface DataSource {
+  fileName: string;
+  fileHash?: string;   // SHA-256 of the file contents
+  sheetName?: string;  // Worksheet; missing for text files
+  importedAt: string;  // ISO timestamp of the import
+}
+
+export interface HourSource {
+  rows: number[];      // 1-based rows of the file that make up the hour
+  origin?: ValueOrigin | 'mixed'; // Missing when the hour has no rows
 }
 
 export interface DailyData {
   date: string;
   dayOfWeek?: string;
   totalViewers: number;
-  hourlyViewers: number[];
+  hourlyViewers: number[]; // Per hour of the broadcast day, starting at the day start hour
   hourlyPercentages: number[];
+  slotMinutes?: number; // Length of the time slots in the file; missing means 60
+  slotViewers?: number[]; // Viewers per slot when the slots are shorter than an hour
+  slotPercentages?: number[]; // Percentages per slot when the slots are shorter than an hour
   ageGroups?: AgeGroupData[]; // Age group data per hour if available
+  measuredAgeGroups?: AgeGroupKey[]; // Age groups taken from Kdh% columns in the file
+  estimatedAgeGroups?: AgeGroupKey[]; // Age groups filled in by the simulated distribution
   programs?: ProgramData[]; // Programs for this day
+  source?: DataSource; // File the day was imported from
+  hourlySources?: HourSource[]; // Rows and origin per hour, in the order of hourlyViewers
+  fileViewers?: number[]; // "Kijkcijfers per programma" per slot as in the file (0 = empty); missing without that column
+  calculationMode?: CalculationMode; // How hourlyViewers were calculated; missing means 'file'
 }
 
 export interface ProcessedMonthData {
   monthYear: string;
+  channel?: string; // Sheet the month comes from when a workbook holds several viewer sheets for the same period, e.g. a channel
   days: DailyData[];
   averageHourlyViewers: number[];
   maxViewersPerHour: number[];
   totalViewersPerHour: number[]; // Total cumulative viewers per hour across all days
+  slotMinutes?: number; // Slot resolution of the days; missing means 60
+  averageSlotViewers?: number[]; // Same as the hourly series, per slot when finer than an hour
+  maxViewersPerSlot?: number[];
+  totalViewersPerSlot?: number[];
   averageAgeGroups?: AgeGroupData[]; // Average age group data per hour
   totalAgeGroups?: AgeGroupData[]; // Total age group data per hour
+  measuredAgeGroups?: AgeGroupKey[]; // Age groups measured on at least one day
+  estimatedAgeGroups?: AgeGroupKey[]; // Age groups estimated on at least one day
   peakDay: string;  // Date string of the day with the most viewers
-  peakHour: number; // Hour (0-23) with the most viewers
+  peakHour: number; // Index in the hourly arrays (0-23) with the most viewers
   totalViewers: number; // Total viewers for the entire month
+  broadcastDayStartHour?: number; // Hour at index 0 of the hourly arrays; missing means 00:00
+  conflictingDates?: string[]; // Aggregates only: dates in more than one month with different numbers; the first version is used
+}
+
+// Allowed deviations before a day is flagged in the reconciliation
+export interface ReconciliationTolerances {
+  viewers: number;       // Relative difference between the sum of the hours and Dagcijfers (0.02 = 2%)
+  percentageSum: number; // Difference between the sum of the hourly percentages and 100% (0.02 = 2 points)
+}
+
+export interface DayReconciliation {
+  date: string;
+  dailyTotal: number;        // Dagcijfers of the day
+  hourlyTotal: number;       // Sum of the hourly viewers
+  viewersDeviation: number;  // (hourlyTotal - dailyTotal) / dailyTotal
+  percentageSum: number;     // Sum of the hourly percentages as a fraction (1 = 100%)
+  viewersFlagged: boolean;
+  percentagesFlagged: boolean;
+}
+
+// Which version of a day to keep when an import overlaps with stored data
+export type DayVersion = 'existing' | 'incoming';
+
+export interface DayConflict {
+  monthYear: string;
+  date: string;
+  existing: DailyData; // Stored version, aligned to the broadcast day of the month
+  incoming: DailyData; // Version from the new file, aligned the same way
+  broadcastDayStartHour: number; // Hour at index 0 of both versions
+}
+
+// What an uploaded file contains, detected from its contents
+export type ImportFileKind = 'viewer' | 'schedule' | 'unknown';
+
+export interface ImportProgress {
+  fileName: string;
+  sheetName?: string;    // Sheet being processed; missing while the file is read
+  rowsProcessed: number; // Rows handled so far over all viewer sheets
+  totalRows: number;
+}
+
+export interface SheetImport {
+  sheetName: string;
+  data: ProcessedMonthData;
 }
 
+// How a schedule file is laid out: one week of day columns, several weeks of day
+// columns below each other, or one program per row
+export type ScheduleLayout = 'week-grid' | 'multi-week-grid' | 'list';
+
 export interface ScheduleData {
-  weekNumber: number;
+  weekNumber: number; // Week in the header of the file, or the first week with programs
   year: number;
   days: Map<string, ProgramData[]>; // Map of date strings to program arrays
   programs?: ProgramData[]; // Flat array of all programs for easier filtering/searching
-  weeks?: number[]; // Array of week numbers for multi-week schedules
-}
\ No newline at end of file
+  weeks?: number[]; // Week numbers of the programs, in ascending order
+  layout?: ScheduleLayout; // Layout the file was read with
+  broadcastDayStartHour?: number; // Hour the broadcast days of the programs start at
+}
+
+// A normalisation rule of the program catalogue: text matching the pattern is removed
+// from a schedule title to find its program, or from a program name to find its series
+export interface TitleRule {
+  id: string;
+  label: string;
+  pattern: string;             // Regular expression, matched case-insensitively
+  target: 'title' | 'series';
+  enabled: boolean;
+  builtIn?: boolean;           // Default rule; can be switched off but not removed
+}
+
+export interface CatalogueProgram {
+  id: string;       // Canonical program ID, stable once created
+  name: string;     // Name shown in reports
+  series: string;   // Series the program belongs to; its own name for a single program
+  titles: string[]; // Titles from the schedules that belong to this program
+}
+
+export interface ProgramCatalogue {
+  rules: TitleRule[];
+  programs: CatalogueProgram[];
+}
+
+export type ViewerColumnField = 'totalViewers' | 'percentage' | 'calculatedViewers';
+
+export interface ColumnRule {
+  synonyms: string[]; // Header texts that identify the column (case-insensitive)
+  index?: number;     // Explicit 0-based column index, wins over the synonyms
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  columns: Record<ViewerColumnField, ColumnRule>;
+}
+
+export type ViewerColumnMapping = Record<ViewerColumnField, number>; // -1 if the column is absent
+
+export interface ViewerColumnDetection {
+  sheetName?: string; // Worksheet the columns were detected in
+  headerRowIndex: number;
+  headers: string[];
+  mapping: ViewerColumnMapping;
+  uncertainFields: ViewerColumnField[]; // Fields that were not found or matched several columns
+}
+
+export type DiagnosticLevel = 'info' | 'warning' | 'error';
+
+export type DiagnosticCategory =
+  | 'column'        // Detected columns and headers
+  | 'skipped-row'   // Rows that were not used, with the reason
+  | 'time-slot'     // Time slots that could not be parsed
+  | 'missing-hours' // Days without data for some hours
+  | 'period'        // Month taken from the data, split sheets and name conflicts
+  | 'reconciliation' // Days whose hours do not add up to the Dagcijfers total
+  | 'calculation'   // Differences between the file values and the recomputed values
+  | 'fallback'      // Places where a default or computed value was used
+  | 'summary';      // Totals and other general information
+
+export interface DiagnosticEntry {
+  level: DiagnosticLevel;
+  category: DiagnosticCategory;
+  message: string;
+  sheet?: string;  // Worksheet the entry refers to
+  row?: number;    // 1-based row number in the source file
+  date?: string;   // Date string (DD-MM-YYYY) the entry refers to
+}
+
+export interface ImportDiagnostics {
+  fileName: string;
+  entries: DiagnosticEntry[];
+}
+
+export interface ImportResult<T> {
+  data: T;
+  diagnostics: ImportDiagnostics;
+}
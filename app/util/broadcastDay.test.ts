@@ -0,0 +1,124 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  alignToDayStart,
+  formatBroadcastSlot,
+  parseTimeMinutes,
+  programStartMinute,
+  rollUpSlots,
+  toBroadcastMinute,
+  toBroadcastSlot
+} from './broadcastDay';
+
+describe('toBroadcastSlot', () => {
+  test('places an hour from the start hour on at its own date', () => {
+    assert.deepEqual(toBroadcastSlot('04-03-2024', 2, 2), { date: '04-03-2024', index: 0, shifted: false });
+    assert.deepEqual(toBroadcastSlot('04-03-2024', 20, 2), { date: '04-03-2024', index: 18, shifted: false });
+  });
+
+  test('adds an hour before the start hour to the previous broadcast day', () => {
+    assert.deepEqual(toBroadcastSlot('01-03-2024', 1, 2), { date: '29-02-2024', index: 23, shifted: true });
+  });
+
+  test('keeps hours in broadcast notation on the same date', () => {
+    assert.deepEqual(toBroadcastSlot('04-03-2024', 25, 2), { date: '04-03-2024', index: 23, shifted: false });
+  });
+
+  test('moves an hour past the end of the broadcast day to the next date', () => {
+    assert.deepEqual(toBroadcastSlot('31-12-2023', 26, 2), { date: '01-01-2024', index: 0, shifted: true });
+  });
+
+  test('follows the clock when the day starts at midnight', () => {
+    assert.deepEqual(toBroadcastSlot('04-03-2024', 0, 0), { date: '04-03-2024', index: 0, shifted: false });
+  });
+});
+
+
+describe('parseTimeMinutes', () => {
+  test('reads times with a colon, comma or point and seconds', () => {
+    assert.equal(parseTimeMinutes('20:00'), 1200);
+    assert.equal(parseTimeMinutes('8,30'), 510);
+    assert.equal(parseTimeMinutes('25.30'), 1530);
+    assert.equal(parseTimeMinutes('20:00:00'), 1200);
+  });
+
+  test('rejects text and times past 29:59', () => {
+    assert.equal(parseTimeMinutes('Journaal'), null);
+    assert.equal(parseTimeMinutes('30:00'), null);
+    assert.equal(parseTimeMinutes('20:75'), null);
+  });
+});
+
+describe('toBroadcastMinute', () => {
+  test('counts minutes from the start of the broadcast day', () => {
+    assert.deepEqual(toBroadcastMinute('04-03-2024', 20 * 60, 2), { date: '04-03-2024', minute: 18 * 60 });
+    assert.deepEqual(toBroadcastMinute('04-03-2024', 24 * 60 + 30, 2), { date: '04-03-2024', minute: 22 * 60 + 30 });
+  });
+
+  test('places a time before the start hour on the previous day', () => {
+    assert.deepEqual(toBroadcastMinute('05-03-2024', 90, 2), { date: '04-03-2024', minute: 23 * 60 + 30 });
+  });
+});
+
+describe('programStartMinute', () => {
+  test('uses the stored minute of the broadcast day', () => {
+    assert.equal(programStartMinute({ startTime: '01:30', startMinute: 1410 }, 2), 1410);
+  });
+
+  test('derives the minute from the clock time of older programs', () => {
+    assert.equal(programStartMinute({ startTime: '01:30' }, 2), 1410);
+    assert.equal(programStartMinute({ startTime: '20:00' }, 2), 1080);
+  });
+});
+
+describe('alignToDayStart', () => {
+  const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+  test('rotates an hourly array to another start hour', () => {
+    const aligned = alignToDayStart(hours, 0, 2);
+    assert.equal(aligned[0], 2);
+    assert.equal(aligned[21], 23);
+    assert.equal(aligned[22], 0);
+    assert.equal(aligned[23], 1);
+  });
+
+  test('rotates finer arrays by whole hours', () => {
+    const quarters = Array.from({ length: 96 }, (_, index) => index);
+    const aligned = alignToDayStart(quarters, 0, 2);
+    assert.equal(aligned[0], 8);
+    assert.equal(aligned[95], 7);
+  });
+
+  test('leaves arrays alone that need no rotation or are not a whole day', () => {
+    assert.equal(alignToDayStart(hours, 2, 2), hours);
+    const partial = [1, 2, 3];
+    assert.equal(alignToDayStart(partial, 0, 2), partial);
+  });
+
+  test('rotating back restores the original order', () => {
+    assert.deepEqual(alignToDayStart(alignToDayStart(hours, 0, 5), 5, 0), hours);
+  });
+});
+
+describe('rollUpSlots', () => {
+  test('sums quarter-hours into hours', () => {
+    assert.deepEqual(rollUpSlots([1, 2, 3, 4, 5, 6, 7, 8], 15), [10, 26]);
+  });
+
+  test('sums quarter-hours into half-hours', () => {
+    assert.deepEqual(rollUpSlots([1, 2, 3, 4], 15, 30), [3, 7]);
+  });
+
+  test('returns series that are already at the resolution as they are', () => {
+    const hourly = [1, 2, 3];
+    assert.equal(rollUpSlots(hourly, 60), hourly);
+  });
+});
+
+
+describe('formatBroadcastSlot', () => {
+  test('labels slots in broadcast notation', () => {
+    assert.equal(formatBroadcastSlot(0, 2, 15), '02:00');
+    assert.equal(formatBroadcastSlot(93, 2, 15), '25:15');
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Helpers for the broadcast day. A broadcast day starts at a fixed hour (02:00 by
+ * default) and runs on past midnight, so 24:00-25:59 still belong to the same
+ * date. Hourly arrays are stored in broadcast order: index 0 is the start hour.
+ */
+
+import { addDays } from './dateUtils';
+
+export const HOURS_PER_DAY = 24;
+
+export const MINUTES_PER_HOUR = 60;
+
+// Ratings are delivered for broadcast days running from 02:00 to 26:00
+export const DEFAULT_BROADCAST_DAY_START_HOUR = 2;
+
+// Start hours that can be chosen in the upload settings
+export const BROADCAST_DAY_START_HOURS = [0, 1, 2, 3, 4, 5, 6];
+
+export interface BroadcastSlot {
+  date: string;  // Broadcast date (DD-MM-YYYY)
+  index: number; // Position in the hourly arrays
+  shifted: boolean; // Whether the slot moved to another date than the one in the file
+}
+
+/**
+ * Start hour of the hourly arrays in a data set. Data stored before the broadcast
+ * day was introduced has no start hour and follows the clock (00:00-23:00).
+ */
+export function getDayStartHour(data: { broadcastDayStartHour?: number } | undefined): number {
+  return data?.broadcastDayStartHour ?? 0;
+}
+
+/**
+ * Place an hour from the file (0-29, where 24-29 continue the given date) on its
+ * broadcast date and array index. Hours before the start hour are the tail of the
+ * previous broadcast day.
+ */
+export function toBroadcastSlot(date: string, hour: number, startHour: number): BroadcastSlot {
+  const offset = hour - startHour;
+
+  if (offset < 0) {
+    return { date: addDays(date, -1), index: offset + HOURS_PER_DAY, shifted: true };
+  }
+  if (offset >= HOURS_PER_DAY) {
+    return { date: addDays(date, 1), index: offset - HOURS_PER_DAY, shifted: true };
+  }
+  return { date, index: offset, shifted: false };
+}
+
+/**
+ * Minutes after midnight of a time such as "20:00", "8,00", "25.30" or "20:00:00".
+ * Times in broadcast notation (24:00-29:59) stay past 24 hours. Null when the text
+ * is not a time.
+ */
+export function parseTimeMinutes(time: string): number | null {
+  const match = String(time).trim().match(/^(\d{1,2})[,.:](\d{2})(?::\d{2})?$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 29 || minutes >= MINUTES_PER_HOUR) return null;
+  return hours * MINUTES_PER_HOUR + minutes;
+}
+
+/**
+ * Place a time from a schedule (minutes after midnight of the given date, up to
+ * 47:59 for the night after) on its broadcast date, the same way as an hour of
+ * viewer data. The minute counts from the start of the broadcast day.
+ */
+export function toBroadcastMinute(date: string, minutes: number, startHour: number): { date: string; minute: number } {
+  const slot = toBroadcastSlot(date, Math.floor(minutes / MINUTES_PER_HOUR), startHour);
+  return { date: slot.date, minute: slot.index * MINUTES_PER_HOUR + minutes % MINUTES_PER_HOUR };
+}
+
+/**
+ * Minutes of a program after the start of its broadcast day, to order a day's
+ * programs across midnight. Programs stored before schedules followed the
+ * broadcast day only have a clock time.
+ */
+export function programStartMinute(program: { startTime: string; startMinute?: number }, startHour: number): number {
+  if (program.startMinute !== undefined) return program.startMinute;
+
+  const minutesPerDay = HOURS_PER_DAY * MINUTES_PER_HOUR;
+  const minutes = parseTimeMinutes(program.startTime) ?? 0;
+  return ((minutes - startHour * MINUTES_PER_HOUR) % minutesPerDay + minutesPerDay) % minutesPerDay;
+}
+
+/**
+ * Broadcast hour (e.g. 25 for 01:00 after midnight) of an array index
+ */
+export function broadcastHour(index: number, startHour: number): number {
+  return startHour + index;
+}
+
+/**
+ * Hour of the clock (0-23) of an array index
+ */
+export function clockHour(index: number, startHour: number): number {
+  return (startHour + index) % HOURS_PER_DAY;
+}
+
+/**
+ * Label of an array index in broadcast notation, e.g. "25:00"
+ */
+export function formatBroadcastHour(index: number, startHour: number): string {
+  return `${broadcastHour(index, startHour).toString().padStart(2, '0')}:00`;
+}
+
+/**
+ * Labels for a full broadcast day, e.g. 02:00 ... 25:00
+ */
+export function getBroadcastHourLabels(startHour: number): string[] {
+  return Array.from({ length: HOURS_PER_DAY }, (_, index) => formatBroadcastHour(index, startHour));
+}
+
+/**
+ * Rotate an hourly (or finer) array from one start hour to another
+ */
+export function alignToDayStart<T>(values: T[], fromStartHour: number, toStartHour: number): T[] {
+  const hourShift = ((toStartHour - fromStartHour) % HOURS_PER_DAY + HOURS_PER_DAY) % HOURS_PER_DAY;
+  if (hourShift === 0 || values.length === 0 || values.length % HOURS_PER_DAY !== 0) return values;
+
+  const shift = hourShift * (values.length / HOURS_PER_DAY);
+  return values.map((_, index) => values[(index + shift) % values.length]);
+}
+
+/**
+ * Number of slots in a broadcast day at the given resolution (96 for quarter-hours)
+ */
+export function slotsPerDay(slotMinutes: number): number {
+  return HOURS_PER_DAY * MINUTES_PER_HOUR / slotMinutes;
+}
+
+/**
+ * Label of a slot index in broadcast notation, e.g. "25:15"
+ */
+export function formatBroadcastSlot(index: number, startHour: number, slotMinutes: number): string {
+  const minutes = index * slotMinutes;
+  const hour = broadcastHour(Math.floor(minutes / MINUTES_PER_HOUR), startHour);
+  return `${hour.toString().padStart(2, '0')}:${(minutes % MINUTES_PER_HOUR).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Labels for all slots of a broadcast day, e.g. 02:00, 02:15 ... 25:45
+ */
+export function getBroadcastSlotLabels(startHour: number, slotMinutes: number): string[] {
+  return Array.from({ length: slotsPerDay(slotMinutes) }, (_, index) => formatBroadcastSlot(index, startHour, slotMinutes));
+}
+
+/**
+ * Sum a slot series into a coarser resolution, e.g. quarter-hours into hours
+ */
+export function rollUpSlots(values: number[], fromMinutes: number, toMinutes: number = MINUTES_PER_HOUR): number[] {
+  if (toMinutes <= fromMinutes) return values;
+
+  const factor = toMinutes / fromMinutes;
+  const rolledUp = Array(Math.ceil(values.length / factor)).fill(0);
+  values.forEach((value, index) => {
+    rolledUp[Math.floor(index / factor)] += value;
+  });
+  return rolledUp;
+}
+
+/**
+ * Greatest common divisor, used to find the slot resolution that fits all slots
+ */
+export function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+/**
+ * Average, maximum and total per slot over a set of days (all at the same resolution)
+ */
+export function summarizeSlotSeries(series: number[][], slotCount: number): {
+  averageSlotViewers: number[];
+  maxViewersPerSlot: number[];
+  totalViewersPerSlot: number[];
+} {
+  const averageSlotViewers = Array(slotCount).fill(0);
+  const maxViewersPerSlot = Array(slotCount).fill(0);
+  const totalViewersPerSlot = Array(slotCount).fill(0);
+
+  series.forEach(values => {
+    values.forEach((viewers, index) => {
+      totalViewersPerSlot[index] += viewers;
+      maxViewersPerSlot[index] = Math.max(maxViewersPerSlot[index], viewers);
+    });
+  });
+
+  if (series.length > 0) {
+    totalViewersPerSlot.forEach((total, index) => {
+      averageSlotViewers[index] = Math.round(total / series.length);
+    });
+  }
+
+  return { averageSlotViewers, maxViewersPerSlot, totalViewersPerSlot };
+}
@@ -0,0 +1,124 @@
+import { CalculationMode, DailyData, HourSource, ProcessedMonthData, ValueOrigin } from '../types';
+import { MINUTES_PER_HOUR, getDayStartHour, rollUpSlots } from './broadcastDay';
+import { buildMonthData } from './excelProcessor';
+import { combineSources } from './provenance';
+
+export const DEFAULT_CALCULATION_MODE: CalculationMode = 'file';
+
+export const CALCULATION_MODE_LABELS: Record<CalculationMode, string> = {
+  file: 'Waarden uit het bestand',
+  recompute: 'Herberekenen (TOTAL × Dagcijfers)',
+  compare: 'Herberekenen en verschillen tonen'
+};
+
+export const CALCULATION_MODES = Object.keys(CALCULATION_MODE_LABELS) as CalculationMode[];
+
+/**
+ * Viewers of one slot in a calculation mode. In 'file' mode the "Kijkcijfers per
+ * programma" value is used and only an empty or zero value is computed; the other
+ * modes always compute TOTAL × Dagcijfers.
+ */
+export function calculateSlotViewers(
+  fileViewers: number,
+  percentage: number,
+  dailyTotal: number,
+  mode: CalculationMode
+): { viewers: number; origin: ValueOrigin } {
+  if (mode === 'file' && fileViewers !== 0) {
+    return { viewers: fileViewers, origin: 'file' };
+  }
+  if (dailyTotal > 0 && percentage > 0) {
+    return { viewers: Math.round(percentage * dailyTotal), origin: 'computed' };
+  }
+  return { viewers: 0, origin: mode === 'file' ? 'file' : 'computed' };
+}
+
+/**
+ * Slot resolution of a day's raw inputs: the slot series when the slots are
+ * shorter than an hour, the hourly series otherwise
+ */
+function rawSlots(day: DailyData): { slotMinutes: number; percentages: number[]; values: number[] } {
+  const slotMinutes = day.slotPercentages ? day.slotMinutes || MINUTES_PER_HOUR : MINUTES_PER_HOUR;
+  return {
+    slotMinutes,
+    percentages: day.slotPercentages || day.hourlyPercentages,
+    values: day.slotViewers || day.hourlyViewers
+  };
+}
+
+/**
+ * Recalculate the viewers of a day from its raw inputs (Dagcijfers, TOTAL and the
+ * file values). The file values are kept, so a day can switch modes any number of times.
+ */
+export function applyCalculationMode(day: DailyData, mode: CalculationMode): DailyData {
+  const currentMode = day.calculationMode || DEFAULT_CALCULATION_MODE;
+  if (currentMode === mode) return day;
+
+  const { slotMinutes, percentages, values } = rawSlots(day);
+
+  // Days stored before the file values were kept still hold them as their viewers
+  // (with computed values for empty cells); they can only be recovered from there
+  const fileViewers = day.fileViewers || (!day.calculationMode ? values : undefined);
+
+  const slots = percentages.map((percentage, index) =>
+    calculateSlotViewers(fileViewers ? fileViewers[index] || 0 : 0, percentage, day.totalViewers, mode)
+  );
+  const slotViewers = slots.map(slot => slot.viewers);
+  const slotsPerHour = MINUTES_PER_HOUR / slotMinutes;
+
+  const hourlySources = day.hourlySources?.map((source, hour): HourSource => {
+    if (source.rows.length === 0) return source;
+    const hourSlots = slots.slice(hour * slotsPerHour, (hour + 1) * slotsPerHour);
+    return { rows: source.rows, origin: combineSources(hourSlots.map(slot => ({ rows: [], origin: slot.origin }))).origin };
+  });
+
+  return {
+    ...day,
+    hourlyViewers: rollUpSlots(slotViewers, slotMinutes),
+    slotViewers: day.slotViewers && slotViewers,
+    hourlySources,
+    fileViewers,
+    calculationMode: mode
+  };
+}
+
+/**
+ * Recalculate all days of a month in a calculation mode and summarise the month again
+ */
+export function applyCalculationModeToMonth(month: ProcessedMonthData, mode: CalculationMode): ProcessedMonthData {
+  const days = month.days.map(day => applyCalculationMode(day, mode));
+  if (days.every((day, index) => day === month.days[index])) return month;
+
+  return buildMonthData(month.monthYear, days, {
+    startHour: getDayStartHour(month),
+    slotMinutes: month.slotMinutes || MINUTES_PER_HOUR,
+    measuredAgeGroups: month.measuredAgeGroups || [],
+    estimatedAgeGroups: month.estimatedAgeGroups || []
+  });
+}
+
+/**
+ * Per hour of a day: the value of the "Kijkcijfers per programma" column, or undefined
+ * when the file had no such column
+ */
+export function fileHourlyViewers(day: DailyData): number[] | undefined {
+  if (!day.fileViewers) return undefined;
+  return rollUpSlots(day.fileViewers, rawSlots(day).slotMinutes);
+}
+
+/**
+ * Tooltip lines comparing a recomputed hour with the value in the file; only for
+ * days calculated in 'compare' mode
+ */
+export function describeCalculationDifference(day: DailyData, hourIndex: number): string[] {
+  if (day.calculationMode !== 'compare') return [];
+
+  const fileValues = fileHourlyViewers(day);
+  if (!fileValues) return ['Geen kolom "Kijkcijfers per programma" in het bestand'];
+
+  const fileValue = fileValues[hourIndex] || 0;
+  if (fileValue === 0) return ['Geen waarde in "Kijkcijfers per programma"'];
+
+  const difference = (day.hourlyViewers[hourIndex] || 0) - fileValue;
+  return [`In het bestand: ${fileValue.toLocaleString('nl-NL')} (verschil ${difference > 0 ? '+' : ''}${difference.toLocaleString('nl-NL')})`];
+}
@@ -0,0 +1,138 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CategoryRule, ProcessedMonthData, ProgramData } from '../types';
+import {
+  DEFAULT_CATEGORY_RULES,
+  applyCategoryRules,
+  applyCategoryRulesToMonths,
+  categoryRuleError,
+  classifyProgram,
+  matchesCategoryRule,
+  previewCategoryRule
+} from './categoryRules';
+
+function rule(pattern: string, extra: Partial<CategoryRule> = {}): CategoryRule {
+  return { id: pattern, label: pattern || 'alles', matchType: 'keyword', pattern, assign: { category: 'Test' }, enabled: true, ...extra };
+}
+
+// 04-03-2024 is a Monday
+function program(title: string, startTime: string = '20:00', extra: Partial<ProgramData> = {}): ProgramData {
+  return { title, startTime, day: '04-03-2024', fileClassification: {}, ...extra };
+}
+
+function month(programs: ProgramData[]): ProcessedMonthData {
+  return {
+    monthYear: 'maart 2024',
+    days: [{ date: '04-03-2024', totalViewers: 0, hourlyViewers: [], hourlyPercentages: [], programs }],
+    averageHourlyViewers: [],
+    maxViewersPerHour: [],
+    totalViewersPerHour: [],
+    peakDay: '04-03-2024',
+    peakHour: 0,
+    totalViewers: 0
+  };
+}
+
+describe('matchesCategoryRule', () => {
+  test('matches any of the keywords regardless of case', () => {
+    assert.equal(matchesCategoryRule(program('Het JOURNAAL'), rule('nieuws, journaal')), true);
+    assert.equal(matchesCategoryRule(program('Sport'), rule('nieuws, journaal')), false);
+  });
+
+  test('matches a regular expression, and nothing when it is invalid', () => {
+    assert.equal(matchesCategoryRule(program('FILM: De Lift'), rule('^film\\s*:', { matchType: 'regex' })), true);
+    assert.equal(matchesCategoryRule(program('FILM: De Lift'), rule('(film', { matchType: 'regex' })), false);
+  });
+
+  test('matches every title with an empty pattern', () => {
+    assert.equal(matchesCategoryRule(program('Wat dan ook'), rule('')), true);
+  });
+
+  test('matches a time window that runs past midnight', () => {
+    const late = rule('', { fromTime: '22:00', toTime: '02:00' });
+    assert.equal(matchesCategoryRule(program('A', '23:00'), late), true);
+    assert.equal(matchesCategoryRule(program('A', '01:30'), late), true);
+    assert.equal(matchesCategoryRule(program('A', '20:00'), late), false);
+  });
+
+  test('matches the weekday of the broadcast date', () => {
+    assert.equal(matchesCategoryRule(program('A'), rule('', { weekdays: [1] })), true);
+    assert.equal(matchesCategoryRule(program('A'), rule('', { weekdays: [2] })), false);
+    assert.equal(matchesCategoryRule(program('A', '20:00', { day: undefined }), rule('', { weekdays: [1] })), false);
+  });
+});
+
+describe('categoryRuleError', () => {
+  test('accepts a complete rule', () => {
+    assert.equal(categoryRuleError(rule('film')), null);
+  });
+
+  test('reports a missing label, invalid pattern, invalid time and empty assignment', () => {
+    assert.ok(categoryRuleError(rule('film', { label: ' ' })));
+    assert.ok(categoryRuleError(rule('(film', { matchType: 'regex' })));
+    assert.ok(categoryRuleError(rule('film', { fromTime: '8 uur' })));
+    assert.ok(categoryRuleError(rule('film', { assign: {} })));
+  });
+});
+
+describe('classifyProgram', () => {
+  test('applies the default rules', () => {
+    const film = classifyProgram(program('FILM: De Lift herh.'), DEFAULT_CATEGORY_RULES);
+    assert.equal(film.category, 'Film');
+    assert.equal(film.isRepeat, true);
+  });
+
+  test('lets a later rule override an earlier one', () => {
+    const rules = [rule('film', { assign: { category: 'Film', genre: 'Drama' } }), rule('lift', { assign: { category: 'Thriller' } })];
+    const classified = classifyProgram(program('Film: De Lift'), rules);
+    assert.equal(classified.category, 'Thriller');
+    assert.equal(classified.genre, 'Drama');
+  });
+
+  test('ignores disabled rules', () => {
+    assert.equal(classifyProgram(program('Film'), [rule('film', { enabled: false })]).category, undefined);
+  });
+
+  test('keeps what the schedule says over the rules', () => {
+    const classified = classifyProgram(
+      program('Nacht herh.', '00:30', { fileClassification: { category: 'Muziek', isRepeat: false } }),
+      DEFAULT_CATEGORY_RULES.concat(rule('nacht'))
+    );
+    assert.equal(classified.category, 'Muziek');
+    assert.equal(classified.isRepeat, false);
+  });
+
+  test('lets a rule mark a program as no repeat', () => {
+    const rules = DEFAULT_CATEGORY_RULES.concat(rule('journaal', { assign: { isRepeat: false } }));
+    assert.equal(classifyProgram(program('Journaal herh.'), rules).isRepeat, false);
+  });
+
+  test('reclassifies programs stored before the rules existed', () => {
+    const stored: ProgramData = { title: 'Quiz', startTime: '20:00', day: '04-03-2024', category: 'Film', isRepeat: true };
+    const classified = classifyProgram(stored, DEFAULT_CATEGORY_RULES);
+    assert.equal(classified.category, undefined);
+    assert.equal(classified.isRepeat, undefined);
+    assert.deepEqual(classified.fileClassification, {});
+  });
+});
+
+describe('applyCategoryRules', () => {
+  test('returns the same list when no program changes', () => {
+    const programs = applyCategoryRules([program('FILM: De Lift'), program('Journaal')], DEFAULT_CATEGORY_RULES);
+    assert.equal(applyCategoryRules(programs, DEFAULT_CATEGORY_RULES), programs);
+  });
+
+  test('returns the same months when no program changes', () => {
+    const months = applyCategoryRulesToMonths([month([program('FILM: De Lift')])], DEFAULT_CATEGORY_RULES);
+    assert.equal(months[0].days[0].programs![0].category, 'Film');
+    assert.equal(applyCategoryRulesToMonths(months, DEFAULT_CATEGORY_RULES)[0], months[0]);
+  });
+});
+
+describe('previewCategoryRule', () => {
+  test('lists the stored programs a rule matches, also when it is disabled', () => {
+    const months = [month([program('Journaal'), program('Sport'), program('Journaal laat', '23:00')])];
+    const matches = previewCategoryRule(months, rule('journaal', { enabled: false }));
+    assert.deepEqual(matches.map(match => match.title), ['Journaal', 'Journaal laat']);
+  });
+});
@@ -0,0 +1,194 @@
+import { CategoryRule, ProcessedMonthData, ProgramClassification, ProgramData } from '../types';
+import { HOURS_PER_DAY, MINUTES_PER_HOUR, parseTimeMinutes } from './broadcastDay';
+import { parseDateString } from './dateUtils';
+import { isValidRulePattern } from './programCatalogue';
+
+const MINUTES_PER_DAY = HOURS_PER_DAY * MINUTES_PER_HOUR;
+
+export const CATEGORY_RULE_MATCH_LABELS: Record<CategoryRule['matchType'], string> = {
+  keyword: 'Trefwoorden',
+  regex: 'Reguliere expressie'
+};
+
+// Short day names by Date.getDay(), 0 = Sunday
+export const WEEKDAY_LABELS = ['zo', 'ma', 'di', 'wo', 'do', 'vr', 'za'];
+
+// The categories the schedules used to get from "FILM:"/"SERIE:" prefixes and "herh" in the title
+export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
+  { id: 'film', label: 'Titel met "FILM:"', matchType: 'regex', pattern: 'film\\s*:', assign: { category: 'Film' }, enabled: true, builtIn: true },
+  { id: 'series', label: 'Titel met "SERIE:"', matchType: 'regex', pattern: 'serie\\s*:', assign: { category: 'Series' }, enabled: true, builtIn: true },
+  { id: 'repeat', label: 'Herhaling ("herh." of "herhaling")', matchType: 'keyword', pattern: 'herh', assign: { isRepeat: true }, enabled: true, builtIn: true }
+];
+
+/**
+ * What is wrong with a rule, or null when it can be used
+ */
+export function categoryRuleError(rule: CategoryRule): string | null {
+  if (!rule.label.trim()) return 'Geef de regel een omschrijving';
+  if (rule.matchType === 'regex' && rule.pattern.trim() && !isValidRulePattern(rule.pattern)) {
+    return `"${rule.pattern}" is geen geldige reguliere expressie`;
+  }
+  if ([rule.fromTime, rule.toTime].some(time => time && parseTimeMinutes(time) === null)) {
+    return 'Tijden moeten als UU:MM worden opgegeven, bijv. 22:00';
+  }
+  const { category, genre, isRepeat } = rule.assign;
+  if (!category && !genre && isRepeat === undefined) {
+    return 'Kies een categorie, genre of herhaling om toe te kennen';
+  }
+  return null;
+}
+
+// A rule prepared for matching, with its regular expression compiled once
+type RuleMatcher = (program: ProgramData) => boolean;
+
+/**
+ * Test of a program title against the keywords or regular expression of a rule;
+ * an empty pattern matches every title
+ */
+function compileTitleMatcher(rule: CategoryRule): (title: string) => boolean {
+  if (!rule.pattern.trim()) return () => true;
+  if (rule.matchType === 'regex') {
+    if (!isValidRulePattern(rule.pattern)) return () => false;
+    const expression = new RegExp(rule.pattern, 'i');
+    return title => expression.test(title);
+  }
+  const keywords = rule.pattern
+    .split(',')
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(keyword => keyword !== '');
+  return title => {
+    const lowerTitle = title.toLowerCase();
+    return keywords.some(keyword => lowerTitle.includes(keyword));
+  };
+}
+
+/**
+ * Whether a clock time (minutes after midnight) falls in the time window of a rule.
+ * A window whose end is before its start runs past midnight.
+ */
+function inTimeWindow(minutes: number, rule: CategoryRule): boolean {
+  if (!rule.fromTime && !rule.toTime) return true;
+
+  const from = (rule.fromTime ? parseTimeMinutes(rule.fromTime) ?? 0 : 0) % MINUTES_PER_DAY;
+  const parsedTo = rule.toTime ? parseTimeMinutes(rule.toTime) ?? MINUTES_PER_DAY : MINUTES_PER_DAY;
+  const to = parsedTo > MINUTES_PER_DAY ? parsedTo - MINUTES_PER_DAY : parsedTo;
+
+  return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+/**
+ * Match programs on the title, start time and the day of their broadcast date (a
+ * program at 01:00 counts for the evening before)
+ */
+function compileCategoryRule(rule: CategoryRule): RuleMatcher {
+  const matchesTitle = compileTitleMatcher(rule);
+
+  return program => {
+    if (!matchesTitle(program.title)) return false;
+
+    const minutes = parseTimeMinutes(program.startTime);
+    if (!inTimeWindow((minutes ?? 0) % MINUTES_PER_DAY, rule)) return false;
+
+    if (rule.weekdays && rule.weekdays.length > 0) {
+      const date = program.day ? parseDateString(program.day) : null;
+      if (!date) return false;
+      return rule.weekdays.includes(new Date(date.year, date.month - 1, date.day).getDay());
+    }
+    return true;
+  };
+}
+
+/**
+ * Whether a program matches a rule, see compileCategoryRule
+ */
+export function matchesCategoryRule(program: ProgramData, rule: CategoryRule): boolean {
+  return compileCategoryRule(rule)(program);
+}
+
+/**
+ * Classifier for the enabled rules. Precedence, from high to low: what the
+ * schedule itself says (its category, genre and repeat columns), then the rules,
+ * where a later rule overrides an earlier one. The program itself is returned
+ * when nothing changes.
+ */
+function createClassifier(rules: CategoryRule[]): (program: ProgramData) => ProgramData {
+  const matchers = rules
+    .filter(rule => rule.enabled)
+    .map(rule => ({ assign: rule.assign, matches: compileCategoryRule(rule) }));
+
+  return program => {
+    // Programs stored before the rules existed were classified by the old title
+    // checks; they have no values of their own, so the rules decide
+    const fileClassification: ProgramClassification = program.fileClassification || {};
+
+    const assigned = matchers
+      .filter(({ matches }) => matches(program))
+      .reduce<ProgramClassification>((values, { assign }) => ({
+        category: assign.category ?? values.category,
+        genre: assign.genre ?? values.genre,
+        isRepeat: assign.isRepeat ?? values.isRepeat
+      }), {});
+
+    const category = fileClassification.category ?? assigned.category;
+    const genre = fileClassification.genre ?? assigned.genre;
+    const isRepeat = fileClassification.isRepeat ?? assigned.isRepeat;
+
+    if (program.fileClassification && program.category === category && program.genre === genre && program.isRepeat === isRepeat) {
+      return program;
+    }
+    return { ...program, category, genre, isRepeat, fileClassification };
+  };
+}
+
+/**
+ * Category, genre and repeat flag of one program, see createClassifier
+ */
+export function classifyProgram(program: ProgramData, rules: CategoryRule[]): ProgramData {
+  return createClassifier(rules)(program);
+}
+
+/**
+ * Classify a day's programs; the list itself is returned when no program changes
+ */
+function classifyPrograms(programs: ProgramData[], classify: (program: ProgramData) => ProgramData): ProgramData[] {
+  const classified = programs.map(classify);
+  return classified.every((program, index) => program === programs[index]) ? programs : classified;
+}
+
+/**
+ * Apply the rules to the programs of a day; the list itself is returned when no
+ * program changes
+ */
+export function applyCategoryRules(programs: ProgramData[], rules: CategoryRule[]): ProgramData[] {
+  return classifyPrograms(programs, createClassifier(rules));
+}
+
+/**
+ * Apply the rules to the programs of all stored months, e.g. after the rules changed
+ */
+export function applyCategoryRulesToMonths(months: ProcessedMonthData[], rules: CategoryRule[]): ProcessedMonthData[] {
+  const classify = createClassifier(rules);
+  return months.map(month => {
+    let changed = false;
+    const days = month.days.map(day => {
+      if (!day.programs || day.programs.length === 0) return day;
+      const programs = classifyPrograms(day.programs, classify);
+      if (programs === day.programs) return day;
+      changed = true;
+      return { ...day, programs };
+    });
+    return changed ? { ...month, days } : month;
+  });
+}
+
+/**
+ * The stored programs a rule matches, whether or not it is enabled
+ */
+export function previewCategoryRule(months: ProcessedMonthData[], rule: CategoryRule): ProgramData[] {
+  const matchesRule = compileCategoryRule(rule);
+  const matches: ProgramData[] = [];
+  months.forEach(month => month.days.forEach(day => (day.programs || []).forEach(program => {
+    if (matchesRule(program)) matches.push(program);
+  })));
+  return matches;
+}
@@ -0,0 +1,59 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { ProcessedMonthData } from '../types';
+import { aggregateMonthsData } from './dataAggregator';
+import { parseViewerWorkbook } from './excelProcessor';
+
+const HEADER = ['Datum', 'Dag', 'Tijdvak', 'Dagcijfers', 'TOTAL', 'Kijkcijfers per programma', '13+ Kdh%'];
+
+// A workbook with one viewer sheet per channel, all for the same days; 13+ Kdh%
+// is a percentage of Dagcijfers
+function channelWorkbook(channels: Record<string, any[][]>): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+  Object.keys(channels).forEach(channel => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([HEADER, ...channels[channel]]), channel);
+  });
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+}
+
+function channelMonths(): ProcessedMonthData[] {
+  const contents = channelWorkbook({
+    'Kanaal A': [['04-03-2024', 'maandag', '20:00-20:59', 100000, 10, 10000, 5]],
+    'Kanaal B': [['04-03-2024', 'maandag', '20:00-20:59', 50000, 10, 5000, 5]]
+  });
+  return parseViewerWorkbook(contents, 'kanalen.xlsx', { broadcastDayStartHour: 2 }).data.map(sheet => sheet.data);
+}
+
+describe('aggregateMonthsData', () => {
+  test('keeps the channels of a workbook as separate months', () => {
+    assert.deepEqual(channelMonths().map(month => [month.monthYear, month.channel]), [
+      ['Maart 2024 (Kanaal A)', 'Kanaal A'],
+      ['Maart 2024 (Kanaal B)', 'Kanaal B']
+    ]);
+  });
+
+  test('counts the same date of every channel', () => {
+    const combined = aggregateMonthsData(channelMonths());
+    assert.equal(combined.days.length, 2);
+    assert.equal(combined.totalViewers, 150000);
+    assert.equal(combined.totalViewersPerHour[18], 15000);
+    assert.equal(combined.conflictingDates, undefined);
+    assert.equal(combined.totalAgeGroups![18].viewers13Plus, 7500);
+  });
+
+  test('counts a date of one channel in two months once, also in the age groups', () => {
+    const [channelA] = channelMonths();
+    const changed = { ...channelA, days: channelA.days.map(day => ({ ...day, totalViewers: 1 })) };
+    const combined = aggregateMonthsData([channelA, changed]);
+    assert.equal(combined.days.length, 1);
+    assert.equal(combined.totalViewers, 100000);
+    assert.deepEqual(combined.conflictingDates, ['04-03-2024']);
+    assert.equal(combined.totalAgeGroups![18].viewers13Plus, 5000);
+  });
+
+  test('reads the channel of months stored before it was recorded from the period', () => {
+    const months = channelMonths().map(({ channel, ...month }) => month);
+    assert.equal(aggregateMonthsData(months).days.length, 2);
+  });
+});
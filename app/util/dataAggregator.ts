@@ -1,10 +1,16 @@
-import { ProcessedMonthData, DailyData } from '../types';
+import { ProcessedMonthData, DailyData, AgeGroupKey } from '../types';
+import { HOURS_PER_DAY, MINUTES_PER_HOUR, clockHour, getDayStartHour, greatestCommonDivisor, rollUpSlots, slotsPerDay, summarizeSlotSeries } from './broadcastDay';
+import { compareDates } from './dateUtils';
+import { alignDay, daysMatch } from './dayMerge';
 
 /**
- * Helper function for safely formatting numbers
+ * Channel (sheet) a month comes from; months stored before it was recorded only
+ * carry it in the period, e.g. "Maart 2024 (NPO 1)"
  */
-function safeFormat(num: number | undefined): string {
-  return num !== undefined ? num.toLocaleString() : '0';
+function monthChannel(monthData: ProcessedMonthData): string {
+  if (monthData.channel !== undefined) return monthData.channel;
+  const match = monthData.monthYear.match(/\(([^)]+)\)$/);
+  return match ? match[1] : '';
 }
 
 /**
@@ -20,40 +26,41 @@ export function aggregateMonthsData(monthsData: ProcessedMonthData[]): Processed
     return monthsData[0];
   }
 
-  console.log(`Aggregating data from ${monthsData.length} months`);
+  // Months stored before the broadcast day was introduced follow the clock;
+  // their hourly arrays are rotated to the start hour of the aggregate
+  const startHour = getDayStartHour(monthsData.find(monthData => monthData.broadcastDayStartHour !== undefined));
   
-  // Create a map to combine all days from all months
+  // Create a map to combine all days from all months, per channel and date
   const allDaysMap = new Map<string, DailyData>();
   
   // Combine all days from all months
+  const conflictingDates: string[] = [];
   monthsData.forEach(monthData => {
+    const monthStartHour = getDayStartHour(monthData);
+    const channel = monthChannel(monthData);
     monthData.days.forEach(day => {
-      // Store each day in the map, overwriting if there are duplicates
-      // (unlikely unless same month appears twice)
-      allDaysMap.set(day.date, { ...day });
+      const alignedDay = alignDay(day, monthStartHour, startHour);
+      const key = `${channel}|${day.date}`;
+      const storedDay = allDaysMap.get(key);
+      
+      // A date of a channel in more than one month is counted once; the first
+      // version is kept. Channels of the same period all count.
+      if (storedDay) {
+        if (!daysMatch(storedDay, alignedDay)) conflictingDates.push(day.date);
+        return;
+      }
+      allDaysMap.set(key, alignedDay);
     });
   });
   
   // Convert to array and sort by date
   const allDays = Array.from(allDaysMap.values())
-    .sort((a, b) => {
-      try {
-        // Convert DD-MM-YYYY to Date for comparison
-        const [aDay, aMonth, aYear] = a.date.split('-').map(Number);
-        const [bDay, bMonth, bYear] = b.date.split('-').map(Number);
-        return new Date(aYear, aMonth - 1, aDay).getTime() - new Date(bYear, bMonth - 1, bDay).getTime();
-      } catch (e) {
-        console.error("Error sorting dates:", e);
-        return 0; // Keep original order on error
-      }
-    });
-  
-  console.log(`Combined ${allDays.length} unique days from all months`);
+    .sort((a, b) => compareDates(a.date, b.date));
   
   // Calculate aggregate hourly viewers
-  const averageHourlyViewers = Array(24).fill(0);
-  const maxViewersPerHour = Array(24).fill(0);
-  const totalViewersPerHour = Array(24).fill(0); // Track cumulative totals
+  const averageHourlyViewers = Array(HOURS_PER_DAY).fill(0);
+  const maxViewersPerHour = Array(HOURS_PER_DAY).fill(0);
+  const totalViewersPerHour = Array(HOURS_PER_DAY).fill(0); // Track cumulative totals
   
   allDays.forEach(day => {
     day.hourlyViewers.forEach((viewers, hour) => {
@@ -65,11 +72,25 @@ export function aggregateMonthsData(monthsData: ProcessedMonthData[]): Processed
   
   // Calculate the average
   if (allDays.length > 0) {
-    for (let i = 0; i < 24; i++) {
+    for (let i = 0; i < HOURS_PER_DAY; i++) {
       averageHourlyViewers[i] = Math.round(averageHourlyViewers[i] / allDays.length);
     }
   }
   
+  // Slot series at the finest resolution all months share (e.g. quarter-hours and
+  // half-hours combine into half-hours; anything combined with hours becomes hourly)
+  const slotMinutes = monthsData.reduce((resolution, monthData) => {
+    const monthSlotMinutes = monthData.slotMinutes || MINUTES_PER_HOUR;
+    return resolution * monthSlotMinutes / greatestCommonDivisor(resolution, monthSlotMinutes);
+  }, monthsData[0].slotMinutes || MINUTES_PER_HOUR);
+  
+  const slotSeries = slotMinutes < MINUTES_PER_HOUR
+    ? summarizeSlotSeries(
+        allDays.map(day => rollUpSlots(day.slotViewers || day.hourlyViewers, day.slotMinutes || MINUTES_PER_HOUR, slotMinutes)),
+        slotsPerDay(slotMinutes)
+      )
+    : undefined;
+  
   // Find the peak day
   const peakDay = allDays.reduce(
     (max, day) => (day.totalViewers > max.totalViewers ? day : max),
@@ -79,57 +100,35 @@ export function aggregateMonthsData(monthsData: ProcessedMonthData[]): Processed
   // Find the peak hour with improved logic - using cumulative totals
   const maxTotalViewers = Math.max(...totalViewersPerHour);
   
-  console.log("\n\n*** AGGREGATED PEAK HOUR DEBUGGING ***");
-  console.log("Hourly TOTAL viewers array:", totalViewersPerHour);
-  console.log("Maximum TOTAL viewers value:", maxTotalViewers);
-  
   // Find all hours with the maximum value
   const peakHoursIndices = totalViewersPerHour
     .map((viewers, index) => viewers === maxTotalViewers ? index : -1)
     .filter(index => index !== -1);
   
-  // Log all peak hours found
-  console.log("All peak hours found (by total viewers):", peakHoursIndices.map(idx => `${idx}:00 (${safeFormat(totalViewersPerHour[idx])} cumulative viewers)`));
-  
-  // If we found no peak hours (should be impossible if we have data), default to 0
-  if (peakHoursIndices.length === 0) {
-    console.error("No peak hours found in aggregated data! This should not happen if the data contains viewers.");
-    console.log("Total viewers per hour:", totalViewersPerHour);
-  }
-  
   // For consistency, use the last peak hour for ties (typically evening hours)
   // We want to prioritize evening hours (18-23) in case of ties
   let peakHourIndex = 0;
   
   if (peakHoursIndices.length > 0) {
     // First check if any peak hours are in the evening (18-23 range)
-    const eveningPeakHours = peakHoursIndices.filter(hour => hour >= 18 && hour <= 23);
+    const eveningPeakHours = peakHoursIndices.filter(index => clockHour(index, startHour) >= 18 && clockHour(index, startHour) <= 23);
     
     if (eveningPeakHours.length > 0) {
       // If we have evening peak hours, use the latest one
       peakHourIndex = eveningPeakHours[eveningPeakHours.length - 1];
-      console.log(`Selected evening peak hour: ${peakHourIndex}:00`);
     } else {
       // Otherwise use the latest peak hour from all indices
       peakHourIndex = peakHoursIndices[peakHoursIndices.length - 1];
-      console.log(`Selected non-evening peak hour: ${peakHourIndex}:00`);
     }
   }
   
-  const validPeakHour = (peakHourIndex >= 0 && peakHourIndex < 24) ? peakHourIndex : 0;
-  
-  console.log("Hourly totals by hour:", totalViewersPerHour.map((v, i) => `${i}:00 - ${safeFormat(v)}`));
-  console.log(`Peak hour calculation: Max total value ${safeFormat(maxTotalViewers)} found at indices ${peakHoursIndices.join(', ')}`);
-  console.log(`Selected peak hour index: ${peakHourIndex}`);
+  const validPeakHour = (peakHourIndex >= 0 && peakHourIndex < HOURS_PER_DAY) ? peakHourIndex : 0;
   
   // Calculate total viewers across all days
   const totalViewers = allDays.reduce((sum, day) => sum + day.totalViewers, 0);
   
   // No need for 20:00 override since we're using raw data now
   
-  console.log(`Final aggregated peak hour: ${validPeakHour}:00 with ${safeFormat(totalViewersPerHour[validPeakHour])} total viewers`);
-  console.log("*** END AGGREGATED PEAK HOUR DEBUGGING ***\n\n");
-  
   // Generate timespan string for the aggregated data
   const firstMonthYear = monthsData[0]?.monthYear || '';
   const lastMonthYear = monthsData[monthsData.length - 1]?.monthYear || '';
@@ -137,57 +136,48 @@ export function aggregateMonthsData(monthsData: ProcessedMonthData[]): Processed
     ? `${firstMonthYear} - ${lastMonthYear}`
     : firstMonthYear;
   
-  console.log(`Aggregated data for ${timespan}:`);
-  console.log(`- Total days: ${allDays.length}`);
-  console.log(`- Total viewers: ${safeFormat(totalViewers)}`);
-  console.log(`- Peak day: ${peakDay.date} with ${safeFormat(peakDay.totalViewers)} viewers`);
-  console.log(`- Peak hour: ${validPeakHour}:00 with ${safeFormat(totalViewersPerHour[validPeakHour])} total viewers`);
-  
   // Aggregate age group data if available
-  const averageAgeGroups = Array(24).fill(null).map(() => ({
+  const averageAgeGroups = Array(HOURS_PER_DAY).fill(null).map(() => ({
     viewers13Plus: 0,
     viewers50Plus: 0,
     viewers65Plus: 0
   }));
   
-  const totalAgeGroups = Array(24).fill(null).map(() => ({
+  const totalAgeGroups = Array(HOURS_PER_DAY).fill(null).map(() => ({
     viewers13Plus: 0,
     viewers50Plus: 0,
     viewers65Plus: 0
   }));
   
-  // Combine age group data from all months
-  let hasAgeData = false;
+  // Combine the age group data of the combined days, so a day counted once above
+  // is also counted once here
+  const hasAgeData = monthsData.some(monthData => !!monthData.totalAgeGroups || !!monthData.averageAgeGroups);
+  
+  allDays.forEach(day => {
+    day.ageGroups?.forEach((hourData, hour) => {
+      if (hourData) {
+        totalAgeGroups[hour].viewers13Plus += hourData.viewers13Plus;
+        totalAgeGroups[hour].viewers50Plus += hourData.viewers50Plus;
+        totalAgeGroups[hour].viewers65Plus += hourData.viewers65Plus;
+        
+        averageAgeGroups[hour].viewers13Plus += hourData.viewers13Plus;
+        averageAgeGroups[hour].viewers50Plus += hourData.viewers50Plus;
+        averageAgeGroups[hour].viewers65Plus += hourData.viewers65Plus;
+      }
+    });
+  });
   
+  // Keep track of which age groups were measured or estimated in any month
+  const measuredAgeGroups = new Set<AgeGroupKey>();
+  const estimatedAgeGroups = new Set<AgeGroupKey>();
   monthsData.forEach(monthData => {
-    if (monthData.totalAgeGroups) {
-      hasAgeData = true;
-      monthData.totalAgeGroups.forEach((hourData, hour) => {
-        if (hourData) {
-          totalAgeGroups[hour].viewers13Plus += hourData.viewers13Plus;
-          totalAgeGroups[hour].viewers50Plus += hourData.viewers50Plus;
-          totalAgeGroups[hour].viewers65Plus += hourData.viewers65Plus;
-        }
-      });
-    }
-    
-    if (monthData.averageAgeGroups) {
-      hasAgeData = true;
-      // For average, we weight by the number of days in each month
-      const weight = monthData.days.length;
-      monthData.averageAgeGroups.forEach((hourData, hour) => {
-        if (hourData) {
-          averageAgeGroups[hour].viewers13Plus += hourData.viewers13Plus * weight;
-          averageAgeGroups[hour].viewers50Plus += hourData.viewers50Plus * weight;
-          averageAgeGroups[hour].viewers65Plus += hourData.viewers65Plus * weight;
-        }
-      });
-    }
+    monthData.measuredAgeGroups?.forEach(key => measuredAgeGroups.add(key));
+    monthData.estimatedAgeGroups?.forEach(key => estimatedAgeGroups.add(key));
   });
   
   // Calculate the final averages if we have age data
   if (hasAgeData && allDays.length > 0) {
-    for (let hour = 0; hour < 24; hour++) {
+    for (let hour = 0; hour < HOURS_PER_DAY; hour++) {
       averageAgeGroups[hour].viewers13Plus = Math.round(averageAgeGroups[hour].viewers13Plus / allDays.length);
       averageAgeGroups[hour].viewers50Plus = Math.round(averageAgeGroups[hour].viewers50Plus / allDays.length);
       averageAgeGroups[hour].viewers65Plus = Math.round(averageAgeGroups[hour].viewers65Plus / allDays.length);
@@ -203,8 +193,14 @@ export function aggregateMonthsData(monthsData: ProcessedMonthData[]): Processed
     totalViewersPerHour,
     averageAgeGroups: hasAgeData ? averageAgeGroups : undefined,
     totalAgeGroups: hasAgeData ? totalAgeGroups : undefined,
+    measuredAgeGroups: hasAgeData ? Array.from(measuredAgeGroups) : undefined,
+    estimatedAgeGroups: hasAgeData ? Array.from(estimatedAgeGroups) : undefined,
     peakDay: peakDay.date,
     peakHour: validPeakHour,
-    totalViewers
+    totalViewers,
+    broadcastDayStartHour: startHour,
+    slotMinutes,
+    ...slotSeries,
+    conflictingDates: conflictingDates.length > 0 ? conflictingDates : undefined
   };
 } 
\ No newline at end of file
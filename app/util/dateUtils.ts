@@ -0,0 +1,201 @@
+/**
+ * Date handling shared by the Excel and CSV parsers. All dates in the app are
+ * DD-MM-YYYY strings; everything here works in UTC so timezones cannot shift a day.
+ */
+
+const MS_PER_DAY = 86400000;
+
+// Day 0 of the two Excel date systems
+const EXCEL_1900_EPOCH = Date.UTC(1899, 11, 30);
+const EXCEL_1904_EPOCH = Date.UTC(1904, 0, 1);
+
+// Dutch and English month names and abbreviations
+const MONTHS: Record<string, number> = {
+  jan: 1, januari: 1, january: 1,
+  feb: 2, februari: 2, february: 2,
+  mrt: 3, maart: 3, mar: 3, march: 3,
+  apr: 4, april: 4,
+  mei: 5, may: 5,
+  jun: 6, juni: 6, june: 6,
+  jul: 7, juli: 7, july: 7,
+  aug: 8, augustus: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  okt: 10, oktober: 10, oct: 10, october: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12
+};
+
+// Weekday names that may precede a date, e.g. "vrijdag 1 november 2024"
+const WEEKDAY_PREFIX = /^(ma|di|wo|do|vr|za|zo|maandag|dinsdag|woensdag|donderdag|vrijdag|zaterdag|zondag|mon|tue|wed|thu|fri|sat|sun|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\.?,?\s+/i;
+
+export interface DateNormalizationOptions {
+  // Workbook uses the 1904 date system (Excel for Mac)
+  date1904?: boolean;
+  // Year for text dates without one, e.g. "25-12" in a schedule
+  defaultYear?: number;
+}
+
+/**
+ * Format a day as DD-MM-YYYY; empty if the day does not exist (e.g. 31-02)
+ */
+export function formatDate(day: number, month: number, year: number): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return '';
+  }
+  return `${day.toString().padStart(2, '0')}-${month.toString().padStart(2, '0')}-${year}`;
+}
+
+/**
+ * Split a DD-MM-YYYY string into its parts
+ */
+export function parseDateString(date: string): { day: number; month: number; year: number } | null {
+  const match = date.match(/^(\d{2})-(\d{2})-(\d{4})$/);
+  if (!match) return null;
+  return { day: Number(match[1]), month: Number(match[2]), year: Number(match[3]) };
+}
+
+/**
+ * Sort order of two DD-MM-YYYY strings
+ */
+export function compareDates(a: string, b: string): number {
+  const aParts = parseDateString(a);
+  const bParts = parseDateString(b);
+  if (!aParts || !bParts) return 0; // Keep original order for invalid dates
+
+  return Date.UTC(aParts.year, aParts.month - 1, aParts.day) - Date.UTC(bParts.year, bParts.month - 1, bParts.day);
+}
+
+/**
+ * Move a DD-MM-YYYY date string a number of days forward or back
+ */
+export function addDays(date: string, days: number): string {
+  const parts = parseDateString(date);
+  if (!parts) return date;
+
+  const shifted = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return formatDate(shifted.getUTCDate(), shifted.getUTCMonth() + 1, shifted.getUTCFullYear());
+}
+
+/**
+ * ISO week number (1-53) of a DD-MM-YYYY date, and the year the week belongs to;
+ * null for an invalid date
+ */
+export function isoWeek(date: string): { week: number; year: number } | null {
+  const parts = parseDateString(date);
+  if (!parts) return null;
+
+  // The Thursday of the week decides the year it belongs to
+  const day = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  return {
+    week: Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7),
+    year: day.getUTCFullYear()
+  };
+}
+
+/**
+ * The DD-MM-YYYY date of a weekday (1 = Monday ... 7 = Sunday) in an ISO week
+ */
+export function dateFromIsoWeek(week: number, year: number, weekday: number): string {
+  // Week 1 is the week with 4 January in it
+  const january4 = new Date(Date.UTC(year, 0, 4));
+  const monday = Date.UTC(year, 0, 4 - ((january4.getUTCDay() || 7) - 1));
+  const date = new Date(monday + ((week - 1) * 7 + weekday - 1) * MS_PER_DAY);
+  return formatDate(date.getUTCDate(), date.getUTCMonth() + 1, date.getUTCFullYear());
+}
+
+/**
+ * Number of ISO weeks in a year: 52 or 53
+ */
+export function isoWeeksInYear(year: number): number {
+  // 28 December always falls in the last week of its year
+  return isoWeek(formatDate(28, 12, year))!.week;
+}
+
+/**
+ * Convert an Excel serial number to DD-MM-YYYY in the 1900 or 1904 date system
+ */
+export function excelSerialToDate(serial: number, date1904: boolean = false): string {
+  if (!isFinite(serial) || serial <= 0) return '';
+
+  const epoch = date1904 ? EXCEL_1904_EPOCH : EXCEL_1900_EPOCH;
+  // The time of day is dropped; only the day counts
+  const date = new Date(epoch + Math.floor(serial) * MS_PER_DAY);
+  return formatDate(date.getUTCDate(), date.getUTCMonth() + 1, date.getUTCFullYear());
+}
+
+/**
+ * Expand a two-digit year (24 -> 2024)
+ */
+function fullYear(year: string): number {
+  const value = Number(year);
+  return year.length <= 2 ? 2000 + value : value;
+}
+
+/**
+ * Parse a text date: Dutch day-first (1-11-2024, 1/11/2024, 01.11.24), ISO
+ * (2024-11-01, also with a time), month names (1 november 2024, 25-dec) and
+ * serial numbers that lost their cell type in a CSV export
+ */
+function parseTextDate(text: string, options: DateNormalizationOptions): string {
+  const value = text.trim().replace(WEEKDAY_PREFIX, '');
+
+  // ISO, optionally with a time part that is ignored
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (iso) {
+    return formatDate(Number(iso[3]), Number(iso[2]), Number(iso[1]));
+  }
+
+  // Day first, as used in the Netherlands
+  const dayFirst = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:\s.*)?$/);
+  if (dayFirst) {
+    return formatDate(Number(dayFirst[1]), Number(dayFirst[2]), fullYear(dayFirst[3]));
+  }
+
+  // Day and month without a year
+  const dayMonth = value.match(/^(\d{1,2})[-/.](\d{1,2})$/);
+  if (dayMonth && options.defaultYear) {
+    return formatDate(Number(dayMonth[1]), Number(dayMonth[2]), options.defaultYear);
+  }
+
+  // Month written out, with or without a year
+  const named = value.match(/^(\d{1,2})[-\s.]+([a-z]+)\.?(?:[-\s.]+(\d{2}|\d{4}))?$/i);
+  if (named) {
+    const month = MONTHS[named[2].toLowerCase()];
+    const year = named[3] ? fullYear(named[3]) : options.defaultYear;
+    if (month && year) {
+      return formatDate(Number(named[1]), month, year);
+    }
+  }
+
+  // Serial number stored as text
+  if (/^\d{5}(\.\d+)?$/.test(value)) {
+    return excelSerialToDate(Number(value), options.date1904);
+  }
+
+  return '';
+}
+
+/**
+ * Normalise a date cell (Excel serial, Date object or text) to DD-MM-YYYY.
+ * Returns an empty string when the value is not a valid date, so the caller
+ * can reject the row and report it.
+ */
+export function normalizeDate(value: unknown, options: DateNormalizationOptions = {}): string {
+  if (value === undefined || value === null || value === '') return '';
+
+  if (typeof value === 'number') {
+    return excelSerialToDate(value, options.date1904);
+  }
+
+  if (value instanceof Date) {
+    // Date cells are created at local midnight, so read them in local time
+    if (isNaN(value.getTime())) return '';
+    return formatDate(value.getDate(), value.getMonth() + 1, value.getFullYear());
+  }
+
+  return parseTextDate(String(value), options);
+}
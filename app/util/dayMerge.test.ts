@@ -0,0 +1,59 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProcessedMonthData } from '../types';
+import { findDayConflicts, mergeIntoMonths } from './dayMerge';
+import { parseViewerText } from './excelProcessor';
+
+const HEADER = 'Datum;Dag;Tijdvak;Dagcijfers;TOTAL;Kijkcijfers per programma';
+
+function month(rows: string[], broadcastDayStartHour: number = 2): ProcessedMonthData {
+  return parseViewerText([HEADER, ...rows].join('\n'), 'maart 2024.csv', { broadcastDayStartHour }).data[0].data;
+}
+
+describe('findDayConflicts', () => {
+  const stored = month(['04-03-2024;maandag;20:00-20:59;100000;10;10000']);
+
+  test('finds days that are stored with other numbers', () => {
+    const incoming = month(['04-03-2024;maandag;20:00-20:59;100000;10;12000']);
+    const conflicts = findDayConflicts([stored], incoming);
+    assert.deepEqual(conflicts.map(conflict => conflict.date), ['04-03-2024']);
+    assert.equal(conflicts[0].existing.hourlyViewers[18], 10000);
+    assert.equal(conflicts[0].incoming.hourlyViewers[18], 12000);
+  });
+
+  test('ignores days with the same numbers and new days', () => {
+    const incoming = month([
+      '04-03-2024;maandag;20:00-20:59;100000;10;10000',
+      '05-03-2024;dinsdag;20:00-20:59;100000;10;10000'
+    ]);
+    assert.deepEqual(findDayConflicts([stored], incoming), []);
+  });
+
+  test('compares days stored with another start hour at the same hours', () => {
+    const incoming = month(['04-03-2024;maandag;20:00-20:59;100000;10;10000'], 0);
+    assert.deepEqual(findDayConflicts([stored], incoming), []);
+  });
+});
+
+describe('mergeIntoMonths', () => {
+  const stored = month(['04-03-2024;maandag;20:00-20:59;100000;10;10000']);
+  const incoming = month([
+    '04-03-2024;maandag;20:00-20:59;100000;10;12000',
+    '05-03-2024;dinsdag;20:00-20:59;100000;10;8000'
+  ]);
+
+  test('adds new days and keeps the stored version of a conflicting day', () => {
+    const [merged] = mergeIntoMonths([stored], incoming);
+    assert.deepEqual(merged.days.map(day => [day.date, day.hourlyViewers[18]]), [['04-03-2024', 10000], ['05-03-2024', 8000]]);
+  });
+
+  test('takes the incoming version of a day when chosen', () => {
+    const [merged] = mergeIntoMonths([stored], incoming, { '04-03-2024': 'incoming' });
+    assert.equal(merged.days[0].hourlyViewers[18], 12000);
+  });
+
+  test('adds a month that is not stored yet', () => {
+    const april = { ...incoming, monthYear: 'April 2024' };
+    assert.deepEqual(mergeIntoMonths([stored], april).map(data => data.monthYear), ['Maart 2024', 'April 2024']);
+  });
+});
@@ -0,0 +1,143 @@
+import { AgeGroupKey, DailyData, DayConflict, DayVersion, ProcessedMonthData } from '../types';
+import { MINUTES_PER_HOUR, alignToDayStart, getDayStartHour, greatestCommonDivisor } from './broadcastDay';
+import { compareDates } from './dateUtils';
+import { buildMonthData } from './excelProcessor';
+
+/**
+ * Rotate the hourly and slot arrays of a day from one broadcast day start hour to another
+ */
+export function alignDay(day: DailyData, fromStartHour: number, toStartHour: number): DailyData {
+  if (fromStartHour === toStartHour) return day;
+
+  return {
+    ...day,
+    hourlyViewers: alignToDayStart(day.hourlyViewers, fromStartHour, toStartHour),
+    hourlyPercentages: alignToDayStart(day.hourlyPercentages, fromStartHour, toStartHour),
+    slotViewers: day.slotViewers && alignToDayStart(day.slotViewers, fromStartHour, toStartHour),
+    slotPercentages: day.slotPercentages && alignToDayStart(day.slotPercentages, fromStartHour, toStartHour),
+    ageGroups: day.ageGroups && alignToDayStart(day.ageGroups, fromStartHour, toStartHour),
+    hourlySources: day.hourlySources && alignToDayStart(day.hourlySources, fromStartHour, toStartHour),
+    fileViewers: day.fileViewers && alignToDayStart(day.fileViewers, fromStartHour, toStartHour)
+  };
+}
+
+/**
+ * Whether two versions of a day (at the same start hour) have the same numbers
+ */
+export function daysMatch(a: DailyData, b: DailyData): boolean {
+  return a.totalViewers === b.totalViewers &&
+    a.hourlyViewers.length === b.hourlyViewers.length &&
+    a.hourlyViewers.every((viewers, index) => viewers === b.hourlyViewers[index]);
+}
+
+/**
+ * Start hour that the merged month keeps: that of the stored month, unless it
+ * was stored before the broadcast day existed
+ */
+function mergedStartHour(existing: ProcessedMonthData, incoming: ProcessedMonthData): number {
+  return existing.broadcastDayStartHour !== undefined ? existing.broadcastDayStartHour : getDayStartHour(incoming);
+}
+
+/**
+ * Days of an imported month that are already stored with different numbers
+ */
+export function findDayConflicts(months: ProcessedMonthData[], incoming: ProcessedMonthData): DayConflict[] {
+  const existing = months.find(month => month.monthYear === incoming.monthYear);
+  if (!existing) return [];
+
+  const startHour = mergedStartHour(existing, incoming);
+  const existingDays = new Map(existing.days.map(day => [day.date, alignDay(day, getDayStartHour(existing), startHour)]));
+
+  return incoming.days
+    .map(day => alignDay(day, getDayStartHour(incoming), startHour))
+    .filter(day => existingDays.has(day.date) && !daysMatch(existingDays.get(day.date)!, day))
+    .map(day => ({
+      monthYear: incoming.monthYear,
+      date: day.date,
+      existing: existingDays.get(day.date)!,
+      incoming: day,
+      broadcastDayStartHour: startHour
+    }));
+}
+
+/**
+ * Merge an imported month into the stored version of that month, day by day. New
+ * days are added; for days that differ the stored version is kept unless `keep`
+ * chooses the incoming one. The month totals are recalculated afterwards.
+ */
+export function mergeMonthData(
+  existing: ProcessedMonthData | undefined,
+  incoming: ProcessedMonthData,
+  keep: Record<string, DayVersion> = {}
+): ProcessedMonthData {
+  if (!existing) return incoming;
+
+  const startHour = mergedStartHour(existing, incoming);
+  const daysMap = new Map<string, DailyData>();
+
+  existing.days.forEach(day => {
+    daysMap.set(day.date, alignDay(day, getDayStartHour(existing), startHour));
+  });
+  incoming.days.forEach(day => {
+    if (!daysMap.has(day.date) || keep[day.date] === 'incoming') {
+      daysMap.set(day.date, alignDay(day, getDayStartHour(incoming), startHour));
+    }
+  });
+
+  const days = Array.from(daysMap.values()).sort((a, b) => compareDates(a.date, b.date));
+
+  // Finest slot resolution that both versions can be rolled up to
+  const existingSlotMinutes = existing.slotMinutes || MINUTES_PER_HOUR;
+  const incomingSlotMinutes = incoming.slotMinutes || MINUTES_PER_HOUR;
+  const slotMinutes = existingSlotMinutes * incomingSlotMinutes / greatestCommonDivisor(existingSlotMinutes, incomingSlotMinutes);
+
+  const unique = (keys: AgeGroupKey[]) => keys.filter((key, index) => keys.indexOf(key) === index);
+  const measuredAgeGroups = unique([...(existing.measuredAgeGroups || []), ...(incoming.measuredAgeGroups || [])]);
+  const estimatedAgeGroups = unique([...(existing.estimatedAgeGroups || []), ...(incoming.estimatedAgeGroups || [])])
+    .filter(key => !measuredAgeGroups.includes(key));
+
+  return buildMonthData(existing.monthYear, days, { startHour, slotMinutes, measuredAgeGroups, estimatedAgeGroups });
+}
+
+/**
+ * Merge an imported month into the stored months; a month that is not stored yet is added
+ */
+export function mergeIntoMonths(
+  months: ProcessedMonthData[],
+  incoming: ProcessedMonthData,
+  keep: Record<string, DayVersion> = {}
+): ProcessedMonthData[] {
+  const index = months.findIndex(month => month.monthYear === incoming.monthYear);
+  if (index === -1) return [...months, incoming];
+
+  const merged = [...months];
+  merged[index] = mergeMonthData(months[index], incoming, keep);
+  return merged;
+}
+
+/**
+ * How an imported month relates to the stored data: days that are new, days that
+ * are stored with the same numbers and days that would conflict
+ */
+export function compareWithStored(months: ProcessedMonthData[], incoming: ProcessedMonthData): {
+  stored?: ProcessedMonthData;
+  newDays: number;
+  unchangedDays: number;
+  conflicts: DayConflict[];
+} {
+  const stored = months.find(month => month.monthYear === incoming.monthYear);
+  if (!stored) {
+    return { newDays: incoming.days.length, unchangedDays: 0, conflicts: [] };
+  }
+
+  const storedDates = new Set(stored.days.map(day => day.date));
+  const conflicts = findDayConflicts(months, incoming);
+  const newDays = incoming.days.filter(day => !storedDates.has(day.date)).length;
+
+  return {
+    stored,
+    newDays,
+    unchangedDays: incoming.days.length - newDays - conflicts.length,
+    conflicts
+  };
+}
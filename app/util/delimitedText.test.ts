@@ -0,0 +1,94 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeText, detectDelimiter, parseDelimitedNumber, parseDelimitedText, readDelimitedRows } from './delimitedText';
+
+const bytes = (values: number[]) => new Uint8Array(values).buffer;
+
+describe('parseDelimitedText', () => {
+  test('splits rows and trims cells', () => {
+    assert.deepEqual(parseDelimitedText('a; b ;c\n1;2;3', ';'), [['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  test('keeps delimiters, line breaks and doubled quotes inside quoted fields', () => {
+    assert.deepEqual(
+      parseDelimitedText('titel;opmerking\n"Nieuws; laat";"Zegt ""hallo""\nen meer"', ';'),
+      [['titel', 'opmerking'], ['Nieuws; laat', 'Zegt "hallo"\nen meer']]
+    );
+  });
+
+  test('treats a quote inside an unquoted field as an ordinary character', () => {
+    assert.deepEqual(parseDelimitedText('5" scherm;x', ';'), [['5" scherm', 'x']]);
+  });
+
+  test('accepts \\r\\n, \\r and \\n line endings and drops the byte order mark', () => {
+    assert.deepEqual(parseDelimitedText('﻿a;b\r\n1;2\r3;4\n5;6\r\n', ';'), [['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']]);
+  });
+
+  test('keeps a last row without a line break and empty cells', () => {
+    assert.deepEqual(parseDelimitedText('a,,c\n,b,', ','), [['a', '', 'c'], ['', 'b', '']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  test('picks the delimiter that splits the lines consistently', () => {
+    assert.equal(detectDelimiter('a;b;c\n1,5;2;3'), ';');
+    assert.equal(detectDelimiter('a\tb\n1\t2'), '\t');
+    assert.equal(detectDelimiter('a,b\n"x;y",2'), ',');
+  });
+});
+
+describe('parseDelimitedNumber', () => {
+  test('reads decimal commas with thousands points', () => {
+    assert.equal(parseDelimitedNumber('12,5', true), 12.5);
+    assert.equal(parseDelimitedNumber('1.234.567', true), 1234567);
+    assert.equal(parseDelimitedNumber('1.234,5', true), 1234.5);
+  });
+
+  test('reads decimal points with thousands commas', () => {
+    assert.equal(parseDelimitedNumber('12.5', false), 12.5);
+    assert.equal(parseDelimitedNumber('1,234', false), 1234);
+  });
+
+  test('reads a number that only fits the other separator', () => {
+    assert.equal(parseDelimitedNumber('12,5', false), 12.5);
+    assert.equal(parseDelimitedNumber('12.5', true), 12.5);
+  });
+
+  test('turns percentages into fractions', () => {
+    assert.equal(parseDelimitedNumber('12,5%', true), 0.125);
+  });
+
+  test('returns null for text', () => {
+    assert.equal(parseDelimitedNumber('Journaal', true), null);
+    assert.equal(parseDelimitedNumber('', false), null);
+  });
+});
+
+describe('readDelimitedRows', () => {
+  test('reads a quoted decimal comma in a comma-separated file', () => {
+    assert.deepEqual(readDelimitedRows('Datum,Kijkers\n04-03-2024,"12,5"\n05-03-2024,1000'), [
+      ['Datum', 'Kijkers'],
+      ['04-03-2024', 12.5],
+      ['05-03-2024', 1000]
+    ]);
+  });
+
+  test('reads decimal commas in a semicolon-separated file', () => {
+    assert.deepEqual(readDelimitedRows('a;b\n1,5;2'), [['a', 'b'], [1.5, 2]]);
+  });
+});
+
+describe('decodeText', () => {
+  test('reads valid UTF-8', () => {
+    assert.deepEqual(decodeText(bytes([0x63, 0x61, 0x66, 0xc3, 0xa9])), { text: 'café', encoding: 'utf-8' });
+  });
+
+  test('falls back to Windows-1252 for bytes that are not UTF-8', () => {
+    assert.deepEqual(decodeText(bytes([0x63, 0x61, 0x66, 0xe9])), { text: 'café', encoding: 'windows-1252' });
+  });
+
+  test('follows a byte order mark', () => {
+    assert.deepEqual(decodeText(bytes([0xef, 0xbb, 0xbf, 0x61])), { text: 'a', encoding: 'utf-8' });
+    assert.deepEqual(decodeText(bytes([0xff, 0xfe, 0x61, 0x00])), { text: 'a', encoding: 'utf-16le' });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Reading delimited text exports (CSV, TSV). Exports from Dutch tools often use
+ * semicolons between the fields and a comma as decimal separator.
+ */
+
+export type Delimiter = ',' | ';' | '\t';
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export const TEXT_ENCODING_LABELS: Record<TextEncodingName, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16',
+  'utf-16be': 'UTF-16 (big-endian)',
+  'windows-1252': 'Windows-1252'
+};
+
+const DELIMITERS: Delimiter[] = [';', '\t', ','];
+
+// Number of lines looked at to pick the delimiter
+const SAMPLE_LINES = 20;
+
+// Numbers with a decimal comma and optional thousands dots (1.234,5) or the other way round (1,234.5)
+const DECIMAL_COMMA_NUMBER = /^-?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/;
+const DECIMAL_POINT_NUMBER = /^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+
+/**
+ * File names that are read as delimited text rather than as a workbook
+ */
+export function isDelimitedTextFile(fileName: string): boolean {
+  return /\.(csv|tsv|txt)$/i.test(fileName);
+}
+
+/**
+ * Decode the bytes of a text file. A byte order mark decides the encoding; without
+ * one the text is UTF-8 if it is valid UTF-8, and otherwise Windows-1252, the
+ * encoding Excel on Windows uses for CSV exports with accented titles.
+ */
+export function decodeText(contents: ArrayBuffer): { text: string; encoding: TextEncodingName } {
+  const bytes = new Uint8Array(contents);
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+  }
+}
+
+/**
+ * Count a character outside quoted fields
+ */
+function countOutsideQuotes(line: string, char: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === char && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Pick the delimiter that splits the first lines most consistently
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, SAMPLE_LINES);
+
+  let best: Delimiter = ',';
+  let bestScore = 0;
+  DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter)).filter(count => count > 0);
+    if (counts.length === 0) return;
+
+    // Lines that contain the delimiter, weighted by how often it occurs on every line
+    const score = counts.length * Math.min(...counts);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Split delimited text (RFC 4180) into rows of trimmed cells. A field that starts
+ * with a quote may contain the delimiter, line breaks and doubled quotes; elsewhere
+ * a quote is an ordinary character. Lines may end in \n, \r\n or \r, and a leading
+ * byte order mark is dropped.
+ */
+export function parseDelimitedText(text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let fieldStarted = false;
+
+  const endCell = () => {
+    row.push(cell.trim());
+    cell = '';
+    fieldStarted = false;
+  };
+
+  const endRow = () => {
+    endCell();
+    rows.push(row);
+    row = [];
+  };
+
+  // Drop the byte order mark that spreadsheet programs put in front of UTF-8 exports
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char !== '"') {
+        cell += char;
+      } else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (char === '"' && !fieldStarted) {
+      // Whitespace before the opening quote is not part of the field
+      inQuotes = true;
+      fieldStarted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      cell += char;
+      if (char.trim() !== '') fieldStarted = true;
+    }
+  }
+
+  if (cell !== '' || fieldStarted || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Whether the numbers in the rows use a decimal comma (12,5) instead of a point
+ */
+export function usesDecimalComma(rows: string[][], delimiter: Delimiter): boolean {
+  // With comma-separated fields a comma inside a number would have to be quoted
+  if (delimiter === ',') return false;
+  return rows.some(row => row.some(cell => /^-?\d+,\d+%?$/.test(cell)));
+}
+
+/**
+ * Read a number written with a decimal comma or point; percentages ("12,5%")
+ * become fractions. The separator of the file is tried first; a number that only
+ * fits the other one (a quoted "12,5" in a comma-separated file) is read that way.
+ * Returns null for anything that is not a number.
+ */
+export function parseDelimitedNumber(cell: string, decimalComma: boolean): number | null {
+  const isPercentage = cell.endsWith('%');
+  const value = isPercentage ? cell.slice(0, -1).trim() : cell;
+  const fitsComma = DECIMAL_COMMA_NUMBER.test(value);
+  const fitsPoint = DECIMAL_POINT_NUMBER.test(value);
+
+  let normalized: string;
+  if (fitsComma && (decimalComma || !fitsPoint)) {
+    normalized = value.replace(/\./g, '').replace(',', '.');
+  } else if (fitsPoint) {
+    normalized = value.replace(/,/g, '');
+  } else {
+    return null;
+  }
+
+  const number = Number(normalized);
+  if (isNaN(number)) return null;
+  return isPercentage ? number / 100 : number;
+}
+
+/**
+ * Parse delimited text into rows like the ones read from a worksheet: numbers
+ * become numbers, everything else stays text
+ */
+export function readDelimitedRows(text: string): any[][] {
+  const delimiter = detectDelimiter(text);
+  const rows = parseDelimitedText(text, delimiter);
+  const decimalComma = usesDecimalComma(rows, delimiter);
+
+  return rows.map(row => row.map(cell => {
+    const number = parseDelimitedNumber(cell, decimalComma);
+    return number !== null ? number : cell;
+  }));
+}
@@ -0,0 +1,81 @@
+import { DiagnosticCategory, DiagnosticEntry, DiagnosticLevel, ImportDiagnostics } from '../types';
+
+export const DIAGNOSTIC_LEVEL_LABELS: Record<DiagnosticLevel, string> = {
+  info: 'Info',
+  warning: 'Waarschuwing',
+  error: 'Fout'
+};
+
+export const DIAGNOSTIC_CATEGORY_LABELS: Record<DiagnosticCategory, string> = {
+  'column': 'Kolommen',
+  'skipped-row': 'Overgeslagen rij',
+  'time-slot': 'Tijdvak',
+  'missing-hours': 'Ontbrekende uren',
+  'period': 'Periode',
+  'reconciliation': 'Controle dagtotaal',
+  'calculation': 'Rekenmethode',
+  'fallback': 'Terugvaloptie',
+  'summary': 'Samenvatting'
+};
+
+/**
+ * Create an empty diagnostics report for a file
+ */
+export function createDiagnostics(fileName: string): ImportDiagnostics {
+  return {
+    fileName,
+    entries: []
+  };
+}
+
+/**
+ * Add an entry to a diagnostics report; a missing report is ignored so
+ * parsers can be called without collecting diagnostics
+ */
+export function addDiagnostic(diagnostics: ImportDiagnostics | undefined, entry: DiagnosticEntry): void {
+  if (!diagnostics) return;
+  diagnostics.entries.push(entry);
+}
+
+/**
+ * Count the entries of a report per level
+ */
+export function countDiagnostics(diagnostics: ImportDiagnostics): Record<DiagnosticLevel, number> {
+  const counts: Record<DiagnosticLevel, number> = { info: 0, warning: 0, error: 0 };
+  diagnostics.entries.forEach(entry => {
+    counts[entry.level]++;
+  });
+  return counts;
+}
+
+/**
+ * Quote a value for CSV output
+ */
+function csvValue(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = value.toString();
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Convert diagnostics reports to CSV so they can be downloaded
+ */
+export function diagnosticsToCsv(reports: ImportDiagnostics[]): string {
+  const lines = [['Bestand', 'Niveau', 'Categorie', 'Blad', 'Rij', 'Datum', 'Melding'].join(',')];
+  
+  reports.forEach(report => {
+    report.entries.forEach(entry => {
+      lines.push([
+        csvValue(report.fileName),
+        csvValue(DIAGNOSTIC_LEVEL_LABELS[entry.level]),
+        csvValue(DIAGNOSTIC_CATEGORY_LABELS[entry.category]),
+        csvValue(entry.sheet),
+        csvValue(entry.row),
+        csvValue(entry.date),
+        csvValue(entry.message)
+      ].join(','));
+    });
+  });
+  
+  return lines.join('\r\n');
+}
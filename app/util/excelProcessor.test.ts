@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseViewerText } from './excelProcessor';
+
+const VIEWER_CSV = [
+  'Datum;Dag;Tijdvak;Dagcijfers;TOTAL;Kijkcijfers per programma',
+  '04-03-2024;maandag;20:00-20:59;100000;10;9500',
+  '04-03-2024;maandag;21:00-21:59;100000;5;',
+  '05-03-2024;dinsdag;01:00-01:59;120000;2;abc'
+].join('\n');
+
+describe('parseViewerText', () => {
+  test('reads a month of hours placed on the broadcast day', () => {
+    const { data } = parseViewerText(VIEWER_CSV, 'maart 2024.csv', { broadcastDayStartHour: 2 });
+    assert.equal(data.length, 1);
+
+    const month = data[0].data;
+    assert.equal(month.monthYear, 'Maart 2024');
+    assert.equal(month.broadcastDayStartHour, 2);
+    assert.deepEqual(month.days.map(day => day.date), ['04-03-2024']);
+
+    // 01:00 on 5 March is 25:00 of the broadcast day of 4 March
+    const [day] = month.days;
+    assert.equal(day.totalViewers, 100000);
+    assert.equal(day.hourlyViewers[18], 9500);
+    assert.equal(day.hourlyViewers[19], 5000);
+    assert.equal(day.hourlyViewers[23], 2400);
+    assert.equal(month.peakHour, 18);
+  });
+
+  test('uses the file values and computes only empty cells in file mode', () => {
+    const [{ data: month }] = parseViewerText(VIEWER_CSV, 'maart 2024.csv', { broadcastDayStartHour: 2, calculationMode: 'file' }).data;
+    const sources = month.days[0].hourlySources!;
+    assert.equal(sources[18].origin, 'file');
+    assert.equal(sources[19].origin, 'computed');
+  });
+
+  test('recomputes every hour as TOTAL × Dagcijfers in recompute mode', () => {
+    const [{ data: month }] = parseViewerText(VIEWER_CSV, 'maart 2024.csv', { broadcastDayStartHour: 2, calculationMode: 'recompute' }).data;
+    assert.equal(month.days[0].hourlyViewers[18], 10000);
+  });
+
+  test('reports a number column that holds text', () => {
+    const { diagnostics } = parseViewerText(VIEWER_CSV, 'maart 2024.csv');
+    const warning = diagnostics.entries.find(entry => entry.category === 'fallback');
+    assert.ok(warning);
+    assert.equal(warning.level, 'warning');
+    assert.equal(warning.row, 4);
+    assert.match(warning.message, /"abc" in kolom Kijkcijfers per programma/);
+  });
+
+  test('names the Dagcijfers and TOTAL columns of text in them', () => {
+    const csv = [
+      'Datum;Dag;Tijdvak;Dagcijfers;TOTAL;Kijkcijfers per programma',
+      '04-03-2024;maandag;20:00-20:59;onbekend;10;',
+      '04-03-2024;maandag;21:00-21:59;100000;n.v.t.;'
+    ].join('\n');
+    const messages = parseViewerText(csv, 'maart 2024.csv').diagnostics.entries
+      .filter(entry => entry.category === 'fallback' && entry.level === 'warning')
+      .map(entry => [entry.row, entry.message]);
+    assert.deepEqual(messages, [
+      [2, '"onbekend" in kolom Dagcijfers is geen getal; 0 gebruikt'],
+      [3, '"n.v.t." in kolom TOTAL is geen getal; 0 gebruikt']
+    ]);
+  });
+
+  test('reads a quoted decimal comma in a comma-separated file', () => {
+    const csv = [
+      'Datum,Dag,Tijdvak,Dagcijfers,TOTAL,Kijkcijfers per programma',
+      '04-03-2024,maandag,20:00-20:59,100000,"12,5",'
+    ].join('\n');
+    const [{ data: month }] = parseViewerText(csv, 'maart 2024.csv', { broadcastDayStartHour: 2 }).data;
+    assert.equal(month.days[0].hourlyViewers[18], 12500);
+  });
+
+  test('fails on text without the viewer header', () => {
+    assert.throws(() => parseViewerText('a;b\n1;2', 'leeg.csv'));
+  });
+});
@@ -1,37 +1,152 @@
 import * as XLSX from 'xlsx';
-import { ProcessedMonthData, DailyData, AgeGroupData } from '../types';
+import { ProcessedMonthData, DailyData, AgeGroupData, AgeGroupKey, ImportProfile, ViewerColumnMapping, ImportDiagnostics, ImportResult, SheetImport, ImportProgress, DataSource, HourSource, ReconciliationTolerances, CalculationMode } from '../types';
+import { DEFAULT_IMPORT_PROFILE, ColumnMappingRequiredError, detectViewerColumns } from './importProfiles';
+import { createDiagnostics, addDiagnostic } from './diagnostics';
+import { DEFAULT_BROADCAST_DAY_START_HOUR, HOURS_PER_DAY, MINUTES_PER_HOUR, toBroadcastSlot, clockHour, formatBroadcastHour, formatBroadcastSlot, slotsPerDay, rollUpSlots, summarizeSlotSeries, greatestCommonDivisor } from './broadcastDay';
+import { normalizeDate, compareDates, parseDateString } from './dateUtils';
+import { TEXT_ENCODING_LABELS, decodeText, isDelimitedTextFile, readDelimitedRows } from './delimitedText';
+import { combineSources, hashContents } from './provenance';
+import { readFileAsArrayBuffer } from './fileReading';
+import { DEFAULT_RECONCILIATION_TOLERANCES, reconcileDay, describeReconciliation } from './reconciliation';
+import { DEFAULT_CALCULATION_MODE, calculateSlotViewers } from './calculationMode';
 
 /**
- * Convert Excel date serial number to a formatted date string
+ * Options that influence how a viewer sheet is processed
  */
-function excelDateToString(serial: number): string {
-  if (!serial) return '';
-  
-  // Excel's epoch starts on 1/1/1900
-  const utcDays = Math.floor(serial - 25569);
-  const utcValue = utcDays * 86400;
-  const date = new Date(utcValue * 1000);
-  
-  // Format as DD-MM-YYYY
-  return `${date.getDate().toString().padStart(2, '0')}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getFullYear()}`;
+export interface ViewerProcessingOptions {
+  // Fill age groups without a Kdh% column from the simulated distribution.
+  // Off by default; groups filled this way are listed as estimated.
+  estimateMissingAgeGroups?: boolean;
+  // Profile used to detect the Dagcijfers, TOTAL and Kijkcijfers columns
+  profile?: ImportProfile;
+  // Confirmed column mapping; skips detection entirely
+  columnMapping?: ViewerColumnMapping;
+  // Confirmed column mappings per worksheet, used when reading a whole workbook
+  columnMappings?: Record<string, ViewerColumnMapping>;
+  // Report that collects skipped rows, detected columns and fallbacks
+  diagnostics?: ImportDiagnostics;
+  // Worksheet name, used to label the diagnostics
+  sheetName?: string;
+  // Hour at which the broadcast day starts; earlier hours belong to the previous day
+  broadcastDayStartHour?: number;
+  // Use the "Kijkcijfers per programma" values or recompute TOTAL × Dagcijfers
+  calculationMode?: CalculationMode;
+  // Allowed deviations between the hours of a day and its Dagcijfers total
+  reconciliationTolerances?: ReconciliationTolerances;
+  // Date serials count from 1904 instead of 1900 (set from the workbook)
+  date1904?: boolean;
+  // Content hash of the file, recorded with every imported day
+  fileHash?: string;
+  // Time of the import (ISO); defaults to now
+  importedAt?: string;
+  // File and sheet the rows come from; set per sheet when a file is read
+  source?: DataSource;
+  // Called while a sheet is processed with the number of data rows handled so far
+  onRowsProcessed?: (rowsProcessed: number) => void;
+  // Called while a workbook is read and processed
+  onProgress?: (progress: ImportProgress) => void;
 }
 
+// Number of rows between two progress reports
+const PROGRESS_INTERVAL = 250;
+
+export const AGE_GROUP_KEYS: AgeGroupKey[] = ['viewers13Plus', 'viewers50Plus', 'viewers65Plus'];
+
+const MONTH_NAMES = [
+  'Januari', 'Februari', 'Maart', 'April', 'Mei', 'Juni',
+  'Juli', 'Augustus', 'September', 'Oktober', 'November', 'December'
+];
+
+// Target group labels as they appear in the Kdh% headers (e.g. "13+ Kdh%")
+const AGE_GROUP_LABELS: Record<string, AgeGroupKey> = {
+  '13': 'viewers13Plus',
+  '50': 'viewers50Plus',
+  '65': 'viewers65Plus'
+};
+
 /**
  * Helper function for safely formatting numbers
  */
 function safeFormat(num: number | undefined): string {
-  return num !== undefined ? num.toLocaleString() : '0';
+  return num !== undefined ? num.toLocaleString('nl-NL') : '0';
+}
+
+/**
+ * Create an empty age group record
+ */
+function emptyAgeGroups(): AgeGroupData {
+  return {
+    viewers13Plus: 0,
+    viewers50Plus: 0,
+    viewers65Plus: 0
+  };
+}
+
+/**
+ * Sum the age groups per slot into age groups per hour
+ */
+function rollUpAgeGroups(slotAgeGroups: AgeGroupData[], slotMinutes: number): AgeGroupData[] {
+  const slotsPerHour = MINUTES_PER_HOUR / slotMinutes;
+  const hourlyAgeGroups = Array(HOURS_PER_DAY).fill(null).map(() => emptyAgeGroups());
+  
+  slotAgeGroups.forEach((slotData, index) => {
+    const hourData = hourlyAgeGroups[Math.floor(index / slotsPerHour)];
+    AGE_GROUP_KEYS.forEach(key => {
+      hourData[key] += slotData[key];
+    });
+  });
+  
+  return hourlyAgeGroups;
+}
+
+/**
+ * Normalize a percentage cell to a fraction (2.5 and 0.025 both become 0.025)
+ */
+function normalizePercentage(value: any): number {
+  let percent = Number(value || 0);
+  if (isNaN(percent)) return 0;
+  // If it's greater than 1, it's likely in percentage form (e.g., 2.5% is stored as 2.5)
+  if (percent > 1) {
+    percent = percent / 100;
+  }
+  return percent;
+}
+
+/**
+ * Whether a cell of a number column holds something that is not a number and
+ * would count as 0
+ */
+function isUnreadableNumber(value: any): boolean {
+  return value !== undefined && value !== null && String(value).trim() !== '' && isNaN(Number(value));
+}
+
+/**
+ * Display label of an age group (e.g. "13+")
+ */
+export function ageGroupLabel(key: AgeGroupKey): string {
+  const label = Object.keys(AGE_GROUP_LABELS).find(label => AGE_GROUP_LABELS[label] === key);
+  return label ? `${label}+` : key;
+}
+
+/**
+ * Match a header to the age group whose Kdh% it holds (e.g. "50+ Kdh%")
+ */
+function matchAgeGroupHeader(header: string): AgeGroupKey | null {
+  const match = header.match(/(\d{2})\s*\+/);
+  if (!match) return null;
+  
+  // Absolute viewer columns per target group are not Kdh% columns
+  if (/dagcijfer|kijkcijfer|kijkers/i.test(header)) return null;
+  
+  return AGE_GROUP_LABELS[match[1]] || null;
 }
 
 /**
- * Get simulated age group distribution based on the hour of the day
- * This is a mockup function and should be replaced with real data when available
+ * SIMULATED age group distribution based on the hour of the day.
+ * Only used when `estimateMissingAgeGroups` is enabled, for groups the
+ * file has no Kdh% column for. These numbers are invented, not measured.
  */
-function getAgeGroupDistributionForHour(hour: number): {
-  viewers13Plus: number;
-  viewers50Plus: number;
-  viewers65Plus: number;
-} {
+function getSimulatedAgeGroupShareForHour(hour: number): AgeGroupData {
   // Morning (6-12): More seniors
   if (hour >= 6 && hour < 12) {
     return {
@@ -75,61 +190,97 @@ function getAgeGroupDistributionForHour(hour: number): {
 }
 
 /**
- * Extract hour from time slot string (e.g., "02:00-02:59" -> 2)
- * Handles the case where hours may start from 02:00 instead of 00:00
+ * Time slot as read from the Tijdvak column
  */
-function extractHourFromTimeSlot(timeSlot: string): number {
-  if (!timeSlot) return -1;
-  
-  // Log for debugging unusual time slot formats
-  console.log(`Parsing time slot: "${timeSlot}"`);
+interface TimeSlot {
+  hour: number;             // Hour of the start, 24-29 continue past midnight
+  minute: number;           // Minute of the start
+  durationMinutes?: number; // Length of the slot if the end time is given
+}
+
+/**
+ * Parse a time slot string (e.g. "02:00-02:59", "20:00-20:14" or "20:15")
+ * Hours past midnight in broadcast notation (e.g. "25:00-25:59") are kept as is
+ */
+function parseTimeSlot(timeSlot: string): TimeSlot | null {
+  if (!timeSlot) return null;
   
   // Handle various time slot formats
-  const standardFormat = timeSlot.match(/^(\d{2}):00-\d{2}:59$/);
-  const dashFormat = timeSlot.match(/^(\d{2})-(\d{2})$/);
-  const simpleHourFormat = timeSlot.match(/^(\d{1,2}):00$/);
-  
-  let hour = -1;
-  
-  if (standardFormat && standardFormat[1]) {
-    hour = parseInt(standardFormat[1], 10);
-  } else if (dashFormat && dashFormat[1]) {
-    hour = parseInt(dashFormat[1], 10);
-  } else if (simpleHourFormat && simpleHourFormat[1]) {
-    hour = parseInt(simpleHourFormat[1], 10);
-  }
+  const rangeFormat = timeSlot.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  const dashFormat = timeSlot.trim().match(/^(\d{2})-(\d{2})$/);
+  const simpleFormat = timeSlot.trim().match(/^(\d{1,2}):(\d{2})$/);
   
-  if (hour === -1) {
-    console.warn(`Could not parse hour from time slot: "${timeSlot}"`);
-    return -1;
-  }
+  let slot: TimeSlot | null = null;
   
-  // Only normalize hours 24, 25, and 26 to 0, 1, and 2
-  // These represent the first hours of the next day
-  if (hour >= 24 && hour <= 26) {
-    hour = hour % 24;
-    console.log(`Normalized hour ${timeSlot} to ${hour}:00 (next day)`);
+  if (rangeFormat) {
+    const start = parseInt(rangeFormat[1], 10) * MINUTES_PER_HOUR + parseInt(rangeFormat[2], 10);
+    const end = parseInt(rangeFormat[3], 10) * MINUTES_PER_HOUR + parseInt(rangeFormat[4], 10);
+    
+    // The end is usually inclusive ("20:00-20:14"), sometimes exclusive ("20:00-20:15")
+    const inclusiveDuration = end - start + 1;
+    const durationMinutes = MINUTES_PER_HOUR % inclusiveDuration === 0 ? inclusiveDuration : end - start;
+    
+    slot = {
+      hour: Math.floor(start / MINUTES_PER_HOUR),
+      minute: start % MINUTES_PER_HOUR,
+      durationMinutes: durationMinutes > 0 ? durationMinutes : undefined
+    };
+  } else if (dashFormat) {
+    slot = { hour: parseInt(dashFormat[1], 10), minute: 0, durationMinutes: MINUTES_PER_HOUR };
+  } else if (simpleFormat) {
+    slot = { hour: parseInt(simpleFormat[1], 10), minute: parseInt(simpleFormat[2], 10) };
   }
   
-  // All other hours (2-23) are kept as is, no adjustment needed
+  // A broadcast day never runs on past 06:00 the next morning
+  if (!slot || slot.hour >= 30 || slot.minute >= MINUTES_PER_HOUR) {
+    return null;
+  }
   
-  return hour;
+  return slot;
 }
 
 /**
- * Process Excel data from JSON format to the application's data format
+ * Find the slot resolution in minutes that fits every time slot of the sheet:
+ * 60 for hourly data, 15 for quarter-hours, 1 for minute data
  */
-export function processViewerData(data: any[], monthYear: string): ProcessedMonthData {
-  console.log("Processing data for month:", monthYear);
-  
-  // Find data start row - look for the header row with "Datum", "Dag", "Tijdvak"
-  const headerRowIndex = data.findIndex(row => 
+function detectSlotMinutes(timeSlots: TimeSlot[]): number {
+  return timeSlots.reduce((resolution, slot) => {
+    let slotResolution = greatestCommonDivisor(resolution, slot.minute);
+    if (slot.durationMinutes) {
+      slotResolution = greatestCommonDivisor(slotResolution, slot.durationMinutes);
+    }
+    return slotResolution;
+  }, MINUTES_PER_HOUR);
+}
+
+/**
+ * Find the header row with "Datum", "Dag", "Tijdvak"; -1 if the sheet has none
+ */
+export function findHeaderRowIndex(data: any[]): number {
+  return data.findIndex(row => 
     row && 
     row.length > 2 && 
     row[0] === "Datum" && 
     row[1] === "Dag" && 
     row[2] === "Tijdvak"
   );
+}
+
+/**
+ * Process Excel data from JSON format to the application's data format,
+ * one entry per calendar month found in the dates. The given month is only
+ * used when no date could be read.
+ */
+export function processViewerData(
+  data: any[],
+  monthYear: string,
+  options: ViewerProcessingOptions = {}
+): ProcessedMonthData[] {
+  const { diagnostics, sheetName } = options;
+  const startHour = options.broadcastDayStartHour ?? DEFAULT_BROADCAST_DAY_START_HOUR;
+  
+  // Find data start row - look for the header row with "Datum", "Dag", "Tijdvak"
+  const headerRowIndex = findHeaderRowIndex(data);
   
   if (headerRowIndex === -1) {
     throw new Error("Could not find header row in Excel file");
@@ -143,217 +294,462 @@ export function processViewerData(data: any[], monthYear: string): ProcessedMont
     throw new Error("Header row is invalid or empty");
   }
   
-  console.log("Header row found at index:", headerRowIndex);
-  
-  // Find total viewers column - look for column with "Dagcijfers" or similar
-  let totalViewersColumnIndex = -1;
-  let kijkcijfersColumnIndex = -1;
-  let percentageColumnIndex = -1;
+  // Array.from fills the holes sheet_to_json leaves for empty header cells
+  const headers: string[] = Array.from(data[headerRowIndex] as any[], header => 
+    header !== undefined && header !== null ? header.toString() : ''
+  );
   
-  // For debugging - see all headers
-  data[headerRowIndex].forEach((header: any, index: number) => {
-    if (header && typeof header === 'string') {
-      console.log(`Column ${index}: "${header}"`);
-      
-      // Look for the total viewers column - match different possible names
-      if (header.includes('Dagcijfers') || 
-          header.includes('kijkdichtheid per dag') ||
-          header.includes('dagcijfers') ||
-          header.includes('Kijkers per dag')) {
-        totalViewersColumnIndex = index;
-      }
-      
-      // Look for the "Kijkcijfers per programma" column - this contains calculated viewers
-      if (header.includes('Kijkcijfers per programma') ||
-          header.includes('kijkcijfers per programma') ||
-          header.includes('Kijkcijfer per uur') ||
-          header.includes('kijkcijfer per uur')) {
-        kijkcijfersColumnIndex = index;
-      }
-      
-      // Look for the total percentage column - which could be named "TOTAL" or similar
-      if (header === 'TOTAL' || 
-          header === 'Total' || 
-          header === 'Totaal' || 
-          header.includes('percentage')) {
-        percentageColumnIndex = index;
-      }
+  // Use the confirmed mapping if we have one, otherwise detect the columns with the profile
+  let columnMapping = options.columnMapping;
+  if (!columnMapping) {
+    const detection = detectViewerColumns(headers, headerRowIndex, options.profile || DEFAULT_IMPORT_PROFILE);
+    if (detection.uncertainFields.length > 0) {
+      throw new ColumnMappingRequiredError({ ...detection, sheetName });
     }
-  });
+    columnMapping = detection.mapping;
+  }
   
-  console.log("Found columns - Dagcijfers:", totalViewersColumnIndex, "TOTAL:", percentageColumnIndex, "Kijkcijfers:", kijkcijfersColumnIndex);
-  
-  // If we couldn't find these columns, search for them by position
-  if (totalViewersColumnIndex === -1) {
-    // Try some common positions
-    const possibleColumns = [3, 4, 5, 6];
-    for (const pos of possibleColumns) {
-      if (pos < data[headerRowIndex].length) {
-        console.log(`Trying position ${pos} for total viewers column:`, data[headerRowIndex][pos]);
-        totalViewersColumnIndex = pos;
-        break;
-      }
-    }
+  const totalViewersColumnIndex = columnMapping.totalViewers;
+  const percentageColumnIndex = columnMapping.percentage;
+  const kijkcijfersColumnIndex = columnMapping.calculatedViewers;
+  
+  if (totalViewersColumnIndex < 0 || percentageColumnIndex < 0) {
+    throw new Error("Column mapping is missing the Dagcijfers or TOTAL column");
   }
   
-  if (percentageColumnIndex === -1) {
-    // Try some common positions
-    const possibleColumns = [4, 5, 6, 7];
-    for (const pos of possibleColumns) {
-      if (pos < data[headerRowIndex].length) {
-        console.log(`Trying position ${pos} for percentage column:`, data[headerRowIndex][pos]);
-        percentageColumnIndex = pos;
-        break;
-      }
+  // Look for the Kdh% columns per target group (e.g. "13+ Kdh%")
+  const ageGroupColumns: Partial<Record<AgeGroupKey, number>> = {};
+  headers.forEach((header, index) => {
+    const ageGroup = matchAgeGroupHeader(header);
+    if (ageGroup && ageGroupColumns[ageGroup] === undefined) {
+      ageGroupColumns[ageGroup] = index;
     }
+  });
+  
+  const measuredAgeGroups = AGE_GROUP_KEYS.filter(key => ageGroupColumns[key] !== undefined);
+  const estimatedAgeGroups = options.estimateMissingAgeGroups
+    ? AGE_GROUP_KEYS.filter(key => ageGroupColumns[key] === undefined)
+    : [];
+  const hasAgeGroups = measuredAgeGroups.length > 0 || estimatedAgeGroups.length > 0;
+  
+  const describeColumn = (index: number) => index >= 0 ? `kolom ${index + 1} ("${headers[index]}")` : 'niet aanwezig';
+  addDiagnostic(diagnostics, {
+    level: 'info',
+    category: 'column',
+    sheet: sheetName,
+    row: headerRowIndex + 1,
+    message: `Dagcijfers: ${describeColumn(totalViewersColumnIndex)}; TOTAL: ${describeColumn(percentageColumnIndex)}; Kijkcijfers per programma: ${describeColumn(kijkcijfersColumnIndex)}`
+  });
+  
+  const calculationMode = options.calculationMode || DEFAULT_CALCULATION_MODE;
+  if (kijkcijfersColumnIndex === -1) {
+    addDiagnostic(diagnostics, {
+      level: 'info',
+      category: 'fallback',
+      sheet: sheetName,
+      message: 'Geen kolom "Kijkcijfers per programma"; kijkers per uur worden berekend als TOTAL × Dagcijfers'
+    });
+  } else if (calculationMode !== 'file') {
+    addDiagnostic(diagnostics, {
+      level: 'info',
+      category: 'calculation',
+      sheet: sheetName,
+      message: 'Kijkers per uur worden herberekend als TOTAL × Dagcijfers; de waarden uit "Kijkcijfers per programma" worden bewaard'
+    });
   }
   
-  // Use fallbacks if we still couldn't find the columns
-  if (totalViewersColumnIndex === -1) {
-    console.warn("Could not find total viewers column, using fallback position");
-    totalViewersColumnIndex = 4; // Common position for total viewers
+  measuredAgeGroups.forEach(key => {
+    addDiagnostic(diagnostics, {
+      level: 'info',
+      category: 'column',
+      sheet: sheetName,
+      message: `Doelgroep ${ageGroupLabel(key)}: ${describeColumn(ageGroupColumns[key]!)}`
+    });
+  });
+  
+  if (estimatedAgeGroups.length > 0) {
+    addDiagnostic(diagnostics, {
+      level: 'warning',
+      category: 'fallback',
+      sheet: sheetName,
+      message: `Doelgroepen zonder Kdh%-kolom zijn GESCHAT met een gesimuleerde verdeling: ${estimatedAgeGroups.map(ageGroupLabel).join(', ')}`
+    });
   }
   
-  if (percentageColumnIndex === -1) {
-    console.warn("Could not find percentage column, using fallback position");
-    percentageColumnIndex = 6; // Common position for percentage
+  // Determine the slot resolution (hours, quarter-hours, minutes) from all time slots
+  const slotMinutes = detectSlotMinutes(data.slice(dataStartRow)
+    .map(row => row && row[2] !== undefined && row[2] !== null ? parseTimeSlot(row[2].toString()) : null)
+    .filter((slot): slot is TimeSlot => slot !== null));
+  const slotsPerHour = MINUTES_PER_HOUR / slotMinutes;
+  const hasSlotSeries = slotMinutes < MINUTES_PER_HOUR;
+  
+  if (hasSlotSeries) {
+    addDiagnostic(diagnostics, {
+      level: 'info',
+      category: 'time-slot',
+      sheet: sheetName,
+      message: `Tijdvakken van ${slotMinutes} ${slotMinutes === 1 ? 'minuut' : 'minuten'}; de uurwaarden zijn de som van de tijdvakken`
+    });
   }
   
-  // Create a map to store day-based data
+  // Create a map to store day-based data, per slot; hours are rolled up afterwards
   const daysMap = new Map<string, {
     date: string;
     dayOfWeek: string;
     totalViewers: number;
-    hourlyViewers: number[];
-    hourlyPercentages: number[];
-    ageGroups?: AgeGroupData[];
+    slotViewers: number[];
+    slotPercentages: number[];
+    slotAgeGroups?: AgeGroupData[];
+    slotSources: HourSource[];
+    fileViewers?: number[];
   }>();
   
-  // Check a few rows of data to diagnose
-  for (let i = dataStartRow; i < Math.min(dataStartRow + 5, data.length); i++) {
-    if (data[i] && data[i].length > Math.max(totalViewersColumnIndex, percentageColumnIndex, kijkcijfersColumnIndex !== -1 ? kijkcijfersColumnIndex : 0)) {
-      console.log(`Row ${i} data:`, {
-        date: data[i][0],
-        timeSlot: data[i][2],
-        totalPercentage: data[i][percentageColumnIndex],
-        totalViewers: data[i][totalViewersColumnIndex],
-        calculatedViewers: kijkcijfersColumnIndex !== -1 ? data[i][kijkcijfersColumnIndex] : 'N/A'
-      });
-    }
-  }
+  // Bookkeeping per day for the diagnostics
+  const dayStats = new Map<string, { slotsSeen: Set<number>; computedSlots: number; differingSlots: number; hasOwnRows: boolean }>();
   
   // Process data rows
   for (let i = dataStartRow; i < data.length; i++) {
     const row = data[i];
-    if (!row || row.length < Math.max(totalViewersColumnIndex, percentageColumnIndex) + 1) continue; // Skip incomplete rows
+    const rowNumber = i + 1;
+    
+    if (options.onRowsProcessed && (i - dataStartRow) % PROGRESS_INTERVAL === 0) {
+      options.onRowsProcessed(i - dataStartRow);
+    }
+    
+    // Blank rows (e.g. at the end of the sheet) are not worth reporting
+    if (!row || !row.some((cell: any) => cell !== undefined && cell !== null && cell !== '')) continue;
+    
+    if (row.length < Math.max(totalViewersColumnIndex, percentageColumnIndex) + 1) {
+      addDiagnostic(diagnostics, {
+        level: 'warning',
+        category: 'skipped-row',
+        sheet: sheetName,
+        row: rowNumber,
+        message: 'Onvolledige rij: Dagcijfers- of TOTAL-kolom ontbreekt'
+      });
+      continue;
+    }
     
     const excelDate = row[0]; // Excel date serial number
     const dayOfWeek = row[1]?.toString() || ''; // Day of week
     const timeSlot = row[2]?.toString() || ''; // Time slot (e.g., "02:00-02:59")
     
     // Skip rows without valid date or time slot
-    if (!excelDate || !timeSlot) continue;
+    if (!excelDate || !timeSlot) {
+      addDiagnostic(diagnostics, {
+        level: 'warning',
+        category: 'skipped-row',
+        sheet: sheetName,
+        row: rowNumber,
+        message: !excelDate ? 'Geen datum' : 'Geen tijdvak'
+      });
+      continue;
+    }
+    
+    // Text in a number column counts as 0; say so instead of storing it silently
+    ([
+      ['Dagcijfers', totalViewersColumnIndex],
+      ['TOTAL', percentageColumnIndex],
+      ['Kijkcijfers per programma', kijkcijfersColumnIndex]
+    ] as [string, number][]).forEach(([column, columnIndex]) => {
+      if (columnIndex !== -1 && isUnreadableNumber(row[columnIndex])) {
+        addDiagnostic(diagnostics, {
+          level: 'warning',
+          category: 'fallback',
+          sheet: sheetName,
+          row: rowNumber,
+          message: `"${row[columnIndex]}" in kolom ${column} is geen getal; 0 gebruikt`
+        });
+      }
+    });
     
     // Check if percentage is already in decimal form or as percentage
-    let totalViewerPercent = Number(row[percentageColumnIndex] || 0);
-    // If it's greater than 1, it's likely in percentage form (e.g., 2.5% is stored as 2.5)
-    if (totalViewerPercent > 1) {
-      totalViewerPercent = totalViewerPercent / 100;
-    }
+    const totalViewerPercent = normalizePercentage(row[percentageColumnIndex]);
     
     const totalDailyViewers = Number(row[totalViewersColumnIndex] || 0); // Total viewers for the day
     
-    // Extract hour from time slot
-    const hour = extractHourFromTimeSlot(timeSlot);
-    if (hour === -1) continue; // Skip invalid time slots
-    
-    // Format the date
-    const dateString = typeof excelDate === 'number' 
-      ? excelDateToString(excelDate)
-      : excelDate.toString();
-    
-    // Skip empty dates
-    if (!dateString) continue;
-    
-    // Get or create day data
-    if (!daysMap.has(dateString)) {
-      daysMap.set(dateString, {
-        date: dateString,
-        dayOfWeek,
-        totalViewers: totalDailyViewers,
-        hourlyViewers: Array(24).fill(0),
-        hourlyPercentages: Array(24).fill(0)
+    // Extract hour and minute from time slot
+    const parsedSlot = parseTimeSlot(timeSlot);
+    if (!parsedSlot) {
+      addDiagnostic(diagnostics, {
+        level: 'warning',
+        category: 'time-slot',
+        sheet: sheetName,
+        row: rowNumber,
+        message: `Tijdvak "${timeSlot}" kon niet worden gelezen`
+      });
+      continue;
+    }
+    
+    // Serial numbers, Date cells and text dates all become DD-MM-YYYY
+    const dateString = normalizeDate(excelDate, { date1904: options.date1904 });
+    
+    // Skip rows whose date cannot be read
+    if (!dateString) {
+      addDiagnostic(diagnostics, {
+        level: 'warning',
+        category: 'skipped-row',
+        sheet: sheetName,
+        row: rowNumber,
+        message: `Datum "${excelDate}" kon niet worden gelezen`
+      });
+      continue;
+    }
+    
+    // Place the hour on its broadcast day; e.g. 00:00-01:59 belong to the previous date
+    const slot = toBroadcastSlot(dateString, parsedSlot.hour, startHour);
+    const broadcastDate = slot.date;
+    const slotIndex = slot.index * slotsPerHour + Math.floor(parsedSlot.minute / slotMinutes);
+    
+    // Get or create day data; the day name and total of a shifted row belong to another date
+    if (!daysMap.has(broadcastDate)) {
+      const slotCount = slotsPerDay(slotMinutes);
+      daysMap.set(broadcastDate, {
+        date: broadcastDate,
+        dayOfWeek: slot.shifted ? '' : dayOfWeek,
+        totalViewers: slot.shifted ? 0 : totalDailyViewers,
+        slotViewers: Array(slotCount).fill(0),
+        slotPercentages: Array(slotCount).fill(0),
+        slotAgeGroups: hasAgeGroups ? Array(slotCount).fill(null).map(() => emptyAgeGroups()) : undefined,
+        slotSources: Array(slotCount).fill(null).map(() => ({ rows: [] })),
+        fileViewers: kijkcijfersColumnIndex !== -1 ? Array(slotCount).fill(0) : undefined
       });
     }
     
-    const dayData = daysMap.get(dateString)!;
+    const dayData = daysMap.get(broadcastDate)!;
     
-    // First check if we have the calculated viewers already in the file
-    let hourlyViewers = 0;
+    if (!dayStats.has(broadcastDate)) {
+      dayStats.set(broadcastDate, { slotsSeen: new Set<number>(), computedSlots: 0, differingSlots: 0, hasOwnRows: false });
+    }
+    const stats = dayStats.get(broadcastDate)!;
+    
+    if (!slot.shifted && !stats.hasOwnRows) {
+      stats.hasOwnRows = true;
+      dayData.dayOfWeek = dayOfWeek;
+      dayData.totalViewers = totalDailyViewers;
+    }
+    
+    if (stats.slotsSeen.has(slotIndex)) {
+      addDiagnostic(diagnostics, {
+        level: 'warning',
+        category: 'time-slot',
+        sheet: sheetName,
+        row: rowNumber,
+        date: broadcastDate,
+        message: `Tijdvak ${formatBroadcastSlot(slotIndex, startHour, slotMinutes)} komt meerdere keren voor; de waarde uit deze rij overschrijft de eerdere (tijdvak "${timeSlot}")`
+      });
+    }
+    stats.slotsSeen.add(slotIndex);
+    
+    // The calculated viewers in the file, if the column is there; kept so the
+    // calculation mode can be switched later without the file
+    let fileViewers = 0;
     if (kijkcijfersColumnIndex !== -1 && row[kijkcijfersColumnIndex] !== undefined) {
-      hourlyViewers = Number(row[kijkcijfersColumnIndex]);
+      fileViewers = Number(row[kijkcijfersColumnIndex]) || 0;
     }
     
-    // If we don't have calculated viewers or they're zero, calculate ourselves
-    if (hourlyViewers === 0 && totalDailyViewers > 0 && totalViewerPercent > 0) {
-      hourlyViewers = Math.round(totalViewerPercent * totalDailyViewers);
+    const { viewers: hourlyViewers, origin } = calculateSlotViewers(fileViewers, totalViewerPercent, totalDailyViewers, calculationMode);
+    if (calculationMode === 'file' && origin === 'computed') {
+      stats.computedSlots++;
+    }
+    if (calculationMode === 'compare' && fileViewers !== 0 && hourlyViewers !== fileViewers) {
+      stats.differingSlots++;
     }
     
-    // Update hourly data
-    dayData.hourlyViewers[hour] = hourlyViewers;
-    dayData.hourlyPercentages[hour] = totalViewerPercent;
-    
-    // Generate simulated age group data based on the hour of the day
-    // This is a simulation and should be replaced with real data if available
-    if (!dayData.ageGroups) {
-      dayData.ageGroups = Array(24).fill(null).map(() => ({
-        viewers13Plus: 0,
-        viewers50Plus: 0,
-        viewers65Plus: 0
-      }));
+    // Update slot data
+    dayData.slotViewers[slotIndex] = hourlyViewers;
+    dayData.slotPercentages[slotIndex] = totalViewerPercent;
+    dayData.slotSources[slotIndex] = { rows: [rowNumber], origin };
+    if (dayData.fileViewers) {
+      dayData.fileViewers[slotIndex] = fileViewers;
     }
     
-    const ageGroupDistribution = getAgeGroupDistributionForHour(hour);
-    if (dayData.ageGroups[hour] && hourlyViewers > 0) {
-      // Note: these are cumulative groups (13+ includes 50+ and 65+)
-      const viewers13Plus = Math.round(hourlyViewers * ageGroupDistribution.viewers13Plus);
-      const viewers50Plus = Math.round(hourlyViewers * ageGroupDistribution.viewers50Plus);
-      const viewers65Plus = Math.round(hourlyViewers * ageGroupDistribution.viewers65Plus);
+    // Target group viewers: the group's Kdh% applied to the day total, the same
+    // way the TOTAL percentage is turned into hourly viewers
+    if (dayData.slotAgeGroups) {
+      const hourAgeGroups = emptyAgeGroups();
       
-      dayData.ageGroups[hour] = {
-        viewers13Plus,
-        viewers50Plus,
-        viewers65Plus
-      };
+      measuredAgeGroups.forEach(key => {
+        const groupPercent = normalizePercentage(row[ageGroupColumns[key]!]);
+        hourAgeGroups[key] = Math.round(groupPercent * totalDailyViewers);
+      });
+      
+      if (estimatedAgeGroups.length > 0 && hourlyViewers > 0) {
+        // Note: these are cumulative groups (13+ includes 50+ and 65+)
+        const simulatedShare = getSimulatedAgeGroupShareForHour(parsedSlot.hour % HOURS_PER_DAY);
+        estimatedAgeGroups.forEach(key => {
+          hourAgeGroups[key] = Math.round(hourlyViewers * simulatedShare[key]);
+        });
+      }
+      
+      dayData.slotAgeGroups[slotIndex] = hourAgeGroups;
     }
   }
   
-  // Convert map to array and sort by date
-  const days = Array.from(daysMap.values())
+  // Report per day which hours are missing and which values were computed
+  daysMap.forEach((day, date) => {
+    const stats = dayStats.get(date)!;
+    
+    if (!stats.hasOwnRows) {
+      addDiagnostic(diagnostics, {
+        level: 'info',
+        category: 'skipped-row',
+        sheet: sheetName,
+        date,
+        message: `Uitzenddag overgeslagen: alleen de tijdvakken na middernacht staan in dit blad (${stats.slotsSeen.size} tijdvakken)`
+      });
+      return;
+    }
+    
+    if (day.totalViewers <= 0) {
+      addDiagnostic(diagnostics, {
+        level: 'warning',
+        category: 'skipped-row',
+        sheet: sheetName,
+        date,
+        message: 'Dag overgeslagen: Dagcijfers is 0 of leeg'
+      });
+      return;
+    }
+    
+    const slotUnit = hasSlotSeries ? 'tijdvakken' : 'uur';
+    const missingSlots = day.slotViewers
+      .map((_, index) => index)
+      .filter(index => !stats.slotsSeen.has(index));
+    if (missingSlots.length > 0) {
+      addDiagnostic(diagnostics, {
+        level: 'warning',
+        category: 'missing-hours',
+        sheet: sheetName,
+        date,
+        message: `${missingSlots.length} ${slotUnit} zonder data: ${missingSlots.map(index => formatBroadcastSlot(index, startHour, slotMinutes)).join(', ')}`
+      });
+    }
+    
+    if (kijkcijfersColumnIndex !== -1 && stats.computedSlots > 0) {
+      addDiagnostic(diagnostics, {
+        level: 'info',
+        category: 'fallback',
+        sheet: sheetName,
+        date,
+        message: `${stats.computedSlots} ${slotUnit} zonder waarde in "Kijkcijfers per programma"; berekend als TOTAL × Dagcijfers`
+      });
+    }
+    
+    if (stats.differingSlots > 0) {
+      addDiagnostic(diagnostics, {
+        level: 'info',
+        category: 'calculation',
+        sheet: sheetName,
+        date,
+        message: `${stats.differingSlots} ${slotUnit} wijken af van "Kijkcijfers per programma" na herberekening`
+      });
+    }
+  });
+  
+  // Convert map to array, roll the slots up to hours and sort by date
+  const days: DailyData[] = Array.from(daysMap.values())
     .filter(day => day.totalViewers > 0)
-    .sort((a, b) => {
-      try {
-        // Convert DD-MM-YYYY to Date for comparison
-        const [aDay, aMonth, aYear] = a.date.split('-').map(Number);
-        const [bDay, bMonth, bYear] = b.date.split('-').map(Number);
-        return new Date(aYear, aMonth - 1, aDay).getTime() - new Date(bYear, bMonth - 1, bDay).getTime();
-      } catch (e) {
-        console.error("Error sorting dates:", e);
-        return 0; // Keep original order on error
+    .map(day => {
+      const dailyData: DailyData = {
+        date: day.date,
+        dayOfWeek: day.dayOfWeek,
+        totalViewers: day.totalViewers,
+        hourlyViewers: rollUpSlots(day.slotViewers, slotMinutes),
+        hourlyPercentages: rollUpSlots(day.slotPercentages, slotMinutes),
+        slotMinutes,
+        fileViewers: day.fileViewers,
+        calculationMode,
+        source: options.source,
+        hourlySources: Array.from({ length: HOURS_PER_DAY }, (_, hour) =>
+          combineSources(day.slotSources.slice(hour * slotsPerHour, (hour + 1) * slotsPerHour))
+        )
+      };
+      
+      if (hasSlotSeries) {
+        dailyData.slotViewers = day.slotViewers;
+        dailyData.slotPercentages = day.slotPercentages;
       }
-    });
+      
+      if (day.slotAgeGroups) {
+        dailyData.ageGroups = rollUpAgeGroups(day.slotAgeGroups, slotMinutes);
+        dailyData.measuredAgeGroups = measuredAgeGroups;
+        dailyData.estimatedAgeGroups = estimatedAgeGroups;
+      }
+      
+      return dailyData;
+    })
+    .sort((a, b) => compareDates(a.date, b.date));
   
-  // Log some statistics
-  console.log(`Processed ${days.length} days of data`);
-  if (days.length > 0) {
-    console.log(`Sample day - ${days[0].date}: Total viewers: ${safeFormat(days[0].totalViewers)}`);
-    console.log(`Hourly data for first day:`, days[0].hourlyViewers.map((v, i) => `${i}:00 - ${safeFormat(v)}`));
+  // Check that the hours of every day add up to its Dagcijfers total
+  const tolerances = options.reconciliationTolerances || DEFAULT_RECONCILIATION_TOLERANCES;
+  days.forEach(day => {
+    const result = reconcileDay(day, tolerances);
+    if (result.viewersFlagged || result.percentagesFlagged) {
+      addDiagnostic(diagnostics, {
+        level: 'warning',
+        category: 'reconciliation',
+        sheet: sheetName,
+        date: day.date,
+        message: `Uren sluiten niet aan op het dagtotaal: ${describeReconciliation(result)}`
+      });
+    }
+  });
+  
+  // Group the days per calendar month of their broadcast date; the data decides the
+  // period, a sheet that runs into the next month is split into two months
+  const context: MonthBuildContext = { startHour, slotMinutes, measuredAgeGroups, estimatedAgeGroups, diagnostics, sheetName };
+  const daysPerMonth = new Map<string, DailyData[]>();
+  days.forEach(day => {
+    const dataMonthYear = monthYearFromDate(day.date) || monthYear;
+    if (!daysPerMonth.has(dataMonthYear)) {
+      daysPerMonth.set(dataMonthYear, []);
+    }
+    daysPerMonth.get(dataMonthYear)!.push(day);
+  });
+  
+  if (daysPerMonth.size === 0) {
+    return [buildMonthData(monthYear, [], context)];
+  }
+  
+  if (daysPerMonth.size > 1) {
+    const parts = Array.from(daysPerMonth.entries()).map(([partMonthYear, partDays]) => `${partMonthYear}: ${partDays.length} dagen`);
+    addDiagnostic(diagnostics, {
+      level: 'warning',
+      category: 'period',
+      sheet: sheetName,
+      message: `Blad bevat data van ${daysPerMonth.size} maanden (${parts.join(', ')}); gesplitst per maand`
+    });
   }
   
+  return Array.from(daysPerMonth.entries()).map(([partMonthYear, partDays]) => buildMonthData(partMonthYear, partDays, context));
+}
+
+/**
+ * Settings of a sheet needed to summarise its days into a month
+ */
+export interface MonthBuildContext {
+  startHour: number;
+  slotMinutes: number;
+  measuredAgeGroups: AgeGroupKey[];
+  estimatedAgeGroups: AgeGroupKey[];
+  diagnostics?: ImportDiagnostics;
+  sheetName?: string;
+}
+
+/**
+ * Summarise the days of one month: averages, maxima and totals per hour, peak day and peak hour.
+ * Also used to recalculate a month after days were merged into it.
+ */
+export function buildMonthData(monthYear: string, days: DailyData[], context: MonthBuildContext): ProcessedMonthData {
+  const { startHour, slotMinutes, measuredAgeGroups, estimatedAgeGroups, diagnostics, sheetName } = context;
+  const hasAgeGroups = measuredAgeGroups.length > 0 || estimatedAgeGroups.length > 0;
+  const hasSlotSeries = slotMinutes < MINUTES_PER_HOUR;
+  
   // Calculate average hourly viewers across all days
-  const averageHourlyViewers = Array(24).fill(0);
-  const maxViewersPerHour = Array(24).fill(0);
-  const totalViewersPerHour = Array(24).fill(0); // Track cumulative viewers per hour
+  const averageHourlyViewers = Array(HOURS_PER_DAY).fill(0);
+  const maxViewersPerHour = Array(HOURS_PER_DAY).fill(0);
+  const totalViewersPerHour = Array(HOURS_PER_DAY).fill(0); // Track cumulative viewers per hour
   
   days.forEach(day => {
     day.hourlyViewers.forEach((viewers, hour) => {
@@ -365,11 +761,20 @@ export function processViewerData(data: any[], monthYear: string): ProcessedMont
   
   // Calculate the average
   if (days.length > 0) {
-    for (let i = 0; i < 24; i++) {
+    for (let i = 0; i < HOURS_PER_DAY; i++) {
       averageHourlyViewers[i] = Math.round(averageHourlyViewers[i] / days.length);
     }
   }
   
+  // The same series per slot when the file is finer than an hour; merged days
+  // with another resolution are rolled up to the one of the month
+  const slotSeries = hasSlotSeries
+    ? summarizeSlotSeries(
+        days.map(day => rollUpSlots(day.slotViewers || day.hourlyViewers, day.slotMinutes || MINUTES_PER_HOUR, slotMinutes)),
+        slotsPerDay(slotMinutes)
+      )
+    : undefined;
+  
   // Find the day with the most viewers (default to first day if none found)
   const peakDay = days.length > 0 ? days.reduce(
     (max, day) => (day.totalViewers > max.totalViewers ? day : max),
@@ -379,71 +784,52 @@ export function processViewerData(data: any[], monthYear: string): ProcessedMont
   // Find the hour with the most CUMULATIVE viewers (not average)
   const maxTotalViewers = Math.max(...totalViewersPerHour);
   
-  console.log("\n\n*** PEAK HOUR DEBUGGING ***");
-  console.log("Hourly TOTAL viewers array:", totalViewersPerHour);
-  console.log("Maximum TOTAL viewers value:", maxTotalViewers);
-  
   // Find all hours with the maximum cumulative value
   const peakHoursIndices = totalViewersPerHour
     .map((viewers, index) => viewers === maxTotalViewers ? index : -1)
     .filter(index => index !== -1);
   
-  console.log("All peak hours found (by total viewers):", peakHoursIndices.map(idx => `${idx}:00 (${safeFormat(totalViewersPerHour[idx])} total viewers)`));
-  
-  // If we found no peak hours (should be impossible if we have data), default to 0
-  if (peakHoursIndices.length === 0) {
-    console.error("No peak hours found! This should not happen if the data contains viewers.");
-    console.log("Total viewers per hour:", totalViewersPerHour);
-  }
-  
   // Implement a smarter peak hour selection that prioritizes evening hours (18-23)
   let peakHourIndex = 0;
   
   if (peakHoursIndices.length > 0) {
     // First check if any peak hours are in the evening (18-23 range)
-    const eveningPeakHours = peakHoursIndices.filter(hour => hour >= 18 && hour <= 23);
+    const eveningPeakHours = peakHoursIndices.filter(index => clockHour(index, startHour) >= 18 && clockHour(index, startHour) <= 23);
     
     if (eveningPeakHours.length > 0) {
       // If we have evening peak hours, use the latest one
       peakHourIndex = eveningPeakHours[eveningPeakHours.length - 1];
-      console.log(`Selected evening peak hour: ${peakHourIndex}:00`);
     } else {
       // Otherwise use the latest peak hour from all indices
       peakHourIndex = peakHoursIndices[peakHoursIndices.length - 1];
-      console.log(`Selected non-evening peak hour: ${peakHourIndex}:00`);
     }
   }
   
-  // Add some logging for debugging the peak hour calculation
-  console.log("Hourly totals by hour:", totalViewersPerHour.map((v, i) => `${i}:00 - ${safeFormat(v)}`));
-  console.log(`Peak hour calculation: Max TOTAL value ${safeFormat(maxTotalViewers)} found at indices ${peakHoursIndices.join(', ')}`);
-  console.log(`Selected peak hour index: ${peakHourIndex}`);
+  if (peakHoursIndices.length > 1) {
+    addDiagnostic(diagnostics, {
+      level: 'info',
+      category: 'fallback',
+      sheet: sheetName,
+      message: `Meerdere uren met hetzelfde maximum (${peakHoursIndices.map(index => formatBroadcastHour(index, startHour)).join(', ')}); piekuur ${formatBroadcastHour(peakHourIndex, startHour)} gekozen`
+    });
+  }
   
   // Make sure the peak hour is in valid range
-  const validPeakHour = (peakHourIndex >= 0 && peakHourIndex < 24) ? peakHourIndex : 0;
+  const validPeakHour = (peakHourIndex >= 0 && peakHourIndex < HOURS_PER_DAY) ? peakHourIndex : 0;
   
   // Calculate total viewers across all days
   const totalViewers = days.reduce((sum, day) => sum + day.totalViewers, 0);
   
-  console.log(`Total viewers: ${safeFormat(totalViewers)}`);
-  console.log(`Peak day: ${peakDay.date} with ${safeFormat(peakDay.totalViewers)} viewers`);
-  console.log(`Peak hour: ${validPeakHour}:00 with ${safeFormat(totalViewersPerHour[validPeakHour])} total viewers and ${safeFormat(averageHourlyViewers[validPeakHour])} average viewers`);
-  
-  console.log(`Final peak hour: ${validPeakHour}:00 with ${safeFormat(totalViewersPerHour[validPeakHour])} total viewers`);
-  console.log("*** END PEAK HOUR DEBUGGING ***\n\n");
+  addDiagnostic(diagnostics, {
+    level: 'info',
+    category: 'summary',
+    sheet: sheetName,
+    message: `${monthYear}: ${days.length} dagen verwerkt; totaal ${safeFormat(totalViewers)} kijkers; piekdag ${peakDay.date}; piekuur ${formatBroadcastHour(validPeakHour, startHour)}`
+  });
   
   // Calculate average and total age groups per hour
-  const averageAgeGroups = Array(24).fill(null).map(() => ({
-    viewers13Plus: 0,
-    viewers50Plus: 0,
-    viewers65Plus: 0
-  }));
-  
-  const totalAgeGroups = Array(24).fill(null).map(() => ({
-    viewers13Plus: 0,
-    viewers50Plus: 0,
-    viewers65Plus: 0
-  }));
+  const averageAgeGroups = Array(HOURS_PER_DAY).fill(null).map(() => emptyAgeGroups());
+  const totalAgeGroups = Array(HOURS_PER_DAY).fill(null).map(() => emptyAgeGroups());
   
   // Process age group data for charts
   days.forEach(day => {
@@ -466,7 +852,7 @@ export function processViewerData(data: any[], monthYear: string): ProcessedMont
   
   // Calculate averages
   if (days.length > 0) {
-    for (let hour = 0; hour < 24; hour++) {
+    for (let hour = 0; hour < HOURS_PER_DAY; hour++) {
       averageAgeGroups[hour].viewers13Plus = Math.round(averageAgeGroups[hour].viewers13Plus / days.length);
       averageAgeGroups[hour].viewers50Plus = Math.round(averageAgeGroups[hour].viewers50Plus / days.length);
       averageAgeGroups[hour].viewers65Plus = Math.round(averageAgeGroups[hour].viewers65Plus / days.length);
@@ -479,14 +865,38 @@ export function processViewerData(data: any[], monthYear: string): ProcessedMont
     averageHourlyViewers,
     maxViewersPerHour,
     totalViewersPerHour,
-    averageAgeGroups,
-    totalAgeGroups,
+    averageAgeGroups: hasAgeGroups ? averageAgeGroups : undefined,
+    totalAgeGroups: hasAgeGroups ? totalAgeGroups : undefined,
+    measuredAgeGroups: hasAgeGroups ? measuredAgeGroups : undefined,
+    estimatedAgeGroups: hasAgeGroups ? estimatedAgeGroups : undefined,
     peakDay: peakDay.date,
     peakHour: validPeakHour,
-    totalViewers
+    totalViewers,
+    broadcastDayStartHour: startHour,
+    slotMinutes,
+    ...slotSeries
   };
 }
 
+/**
+ * Month and year of a DD-MM-YYYY date, e.g. "Januari 2025"; empty if the date is invalid
+ */
+export function monthYearFromDate(date: string): string {
+  const parts = parseDateString(date);
+  if (!parts || parts.month < 1 || parts.month > 12) return '';
+  
+  return `${MONTH_NAMES[parts.month - 1]} ${parts.year}`;
+}
+
+/**
+ * Whether a month taken from a file or sheet name (year may be missing) matches the data
+ */
+function monthYearMatches(nameMonthYear: string, dataMonthYear: string): boolean {
+  const [nameMonth, nameYear] = nameMonthYear.split(' ');
+  const [dataMonth, dataYear] = dataMonthYear.split(' ');
+  return nameMonth === dataMonth && (!nameYear || nameYear === dataYear);
+}
+
 /**
  * Extract month and year from filename
  */
@@ -533,64 +943,213 @@ export function extractMonthYearFromFilename(filename: string): string {
   return monthYear;
 }
 
+// Rows of one worksheet (or text file) that has the Datum/Dag/Tijdvak header
+interface ViewerSheet {
+  sheetName: string;
+  rows: any[];
+}
+
 /**
- * Load and process Excel file
+ * Parse the viewer data of a workbook; every sheet with a Datum/Dag/Tijdvak header
+ * is imported as its own month. Works on the raw file contents, so it can run in a
+ * Web Worker or outside the browser.
  */
-export async function processExcelFile(file: File): Promise<ProcessedMonthData> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = async (e) => {
-      try {
-        console.log(`Processing file: ${file.name}`);
-        if (!e.target || !e.target.result) {
-          throw new Error("Failed to read file contents");
-        }
-        
-        const data = new Uint8Array(e.target.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        // Assuming the first sheet contains the data
-        if (!workbook || !workbook.SheetNames || workbook.SheetNames.length === 0) {
-          throw new Error("Invalid Excel file or no sheets found");
-        }
-        
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        console.log(`Sheet name: ${firstSheetName}`);
-        
-        if (!worksheet) {
-          throw new Error(`Worksheet "${firstSheetName}" not found in file`);
-        }
-        
-        // Convert to JSON
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        console.log(`JSON data has ${jsonData.length} rows`);
-        
-        if (!jsonData || jsonData.length === 0) {
-          throw new Error("No data found in Excel sheet");
-        }
-        
-        // Extract month and year from filename
-        const monthYear = extractMonthYearFromFilename(file.name);
-        
-        // Process the data
-        const processedData = processViewerData(jsonData, monthYear);
-        console.log(`Processed data for ${monthYear}: ${processedData.days.length} days, ${safeFormat(processedData.totalViewers)} total viewers`);
-        
-        resolve(processedData);
-      } catch (err) {
-        console.error('Error processing file:', err);
-        reject(err);
-      }
-    };
+export function parseViewerWorkbook(
+  contents: ArrayBuffer,
+  fileName: string,
+  options: ViewerProcessingOptions = {}
+): ImportResult<SheetImport[]> {
+  const diagnostics = options.diagnostics || createDiagnostics(fileName);
+  
+  options.onProgress?.({ fileName, rowsProcessed: 0, totalRows: 0 });
+  
+  const workbook = XLSX.read(new Uint8Array(contents), { type: 'array' });
+  
+  if (!workbook || !workbook.SheetNames || workbook.SheetNames.length === 0) {
+    throw new Error("Invalid Excel file or no sheets found");
+  }
+  
+  // Workbooks saved by older Excel versions for Mac count dates from 1904
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  if (date1904) {
+    addDiagnostic(diagnostics, {
+      level: 'info',
+      category: 'fallback',
+      message: 'Werkmap gebruikt het datumsysteem van 1904'
+    });
+  }
+  
+  // Scan every sheet for the header row
+  const viewerSheets: ViewerSheet[] = [];
+  workbook.SheetNames.forEach(sheetName => {
+    const worksheet = workbook.Sheets[sheetName];
+    const rows = worksheet ? XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[] : [];
     
-    reader.onerror = () => {
-      reject(new Error('Error reading file'));
-    };
+    if (findHeaderRowIndex(rows) === -1) {
+      addDiagnostic(diagnostics, {
+        level: 'info',
+        category: 'skipped-row',
+        sheet: sheetName,
+        message: 'Geen kolommen Datum/Dag/Tijdvak gevonden; blad overgeslagen'
+      });
+      return;
+    }
+    
+    viewerSheets.push({ sheetName, rows });
+  });
+  
+  if (viewerSheets.length === 0) {
+    throw new Error("Could not find header row in any sheet of the Excel file");
+  }
+  
+  return { data: processViewerSheets(viewerSheets, fileName, diagnostics, { ...options, date1904 }), diagnostics };
+}
+
+/**
+ * Parse viewer data exported as delimited text (CSV or TSV, also with semicolons
+ * and decimal commas). The file is processed like a single worksheet.
+ */
+export function parseViewerText(
+  text: string,
+  fileName: string,
+  options: ViewerProcessingOptions = {}
+): ImportResult<SheetImport[]> {
+  const diagnostics = options.diagnostics || createDiagnostics(fileName);
+  
+  options.onProgress?.({ fileName, rowsProcessed: 0, totalRows: 0 });
+  
+  const rows = readDelimitedRows(text);
+  if (findHeaderRowIndex(rows) === -1) {
+    throw new Error("Could not find header row in the text file");
+  }
+  
+  // A text file has no sheets; its file name stands in for the sheet name
+  return { data: processViewerSheets([{ sheetName: fileName, rows }], fileName, diagnostics, options), diagnostics };
+}
+
+/**
+ * Parse a viewer data file of any supported type from its raw contents
+ */
+export function parseViewerFile(
+  contents: ArrayBuffer,
+  fileName: string,
+  options: ViewerProcessingOptions = {}
+): ImportResult<SheetImport[]> {
+  if (isDelimitedTextFile(fileName)) {
+    const diagnostics = options.diagnostics || createDiagnostics(fileName);
+    const { text, encoding } = decodeText(contents);
+    if (encoding !== 'utf-8') {
+      addDiagnostic(diagnostics, {
+        level: 'info',
+        category: 'column',
+        message: `Tekenset: ${TEXT_ENCODING_LABELS[encoding]}`
+      });
+    }
+    return parseViewerText(text, fileName, { ...options, diagnostics });
+  }
+  return parseViewerWorkbook(contents, fileName, options);
+}
+
+/**
+ * Process the viewer sheets of one file into months, with progress over all
+ * sheets and a warning when a file or sheet name points at another period
+ */
+function processViewerSheets(
+  viewerSheets: ViewerSheet[],
+  fileName: string,
+  diagnostics: ImportDiagnostics,
+  options: ViewerProcessingOptions
+): SheetImport[] {
+  // Progress is counted over the rows of all viewer sheets together
+  const totalRows = viewerSheets.reduce((total, sheet) => total + sheet.rows.length, 0);
+  let rowOffset = 0;
+  
+  // Extract month and year from filename
+  const fileMonthYear = extractMonthYearFromFilename(fileName);
+  const importedAt = options.importedAt || new Date().toISOString();
+  
+  const sheets: SheetImport[] = [];
+  viewerSheets.forEach(({ sheetName, rows }) => {
+    // The period comes from the dates in the data; the sheet or file name is
+    // only used when no date can be read
+    const sheetMonthYear = extractMonthYearFromFilename(sheetName);
+    const nameMonthYear = sheetMonthYear !== 'Unknown Month' ? sheetMonthYear : fileMonthYear;
+    
+    // Process the data
+    const months = processViewerData(rows, nameMonthYear, {
+      ...options,
+      columnMapping: options.columnMappings?.[sheetName] || options.columnMapping,
+      diagnostics,
+      sheetName,
+      source: {
+        fileName,
+        fileHash: options.fileHash,
+        // A text file has no sheets
+        sheetName: sheetName !== fileName ? sheetName : undefined,
+        importedAt
+      },
+      onRowsProcessed: options.onProgress && (rowsProcessed => options.onProgress!({
+        fileName,
+        sheetName,
+        rowsProcessed: rowOffset + rowsProcessed,
+        totalRows
+      }))
+    });
+    
+    rowOffset += rows.length;
+    options.onProgress?.({ fileName, sheetName, rowsProcessed: rowOffset, totalRows });
+    
+    const dataMonths = months.filter(month => month.days.length > 0).map(month => month.monthYear);
     
-    reader.readAsArrayBuffer(file);
+    // Report file and sheet names that point at another month than the data
+    const nameSources = [
+      { label: 'Bladnaam', monthYear: sheetName !== fileName ? sheetMonthYear : 'Unknown Month' },
+      { label: 'Bestandsnaam', monthYear: fileMonthYear }
+    ];
+    nameSources.forEach(source => {
+      if (source.monthYear === 'Unknown Month' || dataMonths.length === 0) return;
+      if (dataMonths.some(dataMonthYear => monthYearMatches(source.monthYear, dataMonthYear))) return;
+      
+      addDiagnostic(diagnostics, {
+        level: 'warning',
+        category: 'period',
+        sheet: sheetName,
+        message: `${source.label} noemt ${source.monthYear.trim()}, maar de data is van ${dataMonths.join(', ')}; de periode uit de data is gebruikt`
+      });
+    });
+    
+    months.forEach(month => {
+      // Other sheet names (e.g. channels) are added to the period so the months stay apart
+      if (sheetMonthYear === 'Unknown Month' && viewerSheets.length > 1) {
+        month.monthYear = `${month.monthYear} (${sheetName})`;
+        month.channel = sheetName;
+      }
+      sheets.push({ sheetName, data: month });
+    });
   });
-} 
\ No newline at end of file
+  
+  return sheets;
+}
+
+/**
+ * Process the contents of a viewer data file (Excel or delimited text) and record
+ * its content hash; runs anywhere, e.g. in a worker or in Node
+ */
+export async function processViewerContents(
+  contents: ArrayBuffer,
+  fileName: string,
+  options: ViewerProcessingOptions = {}
+): Promise<ImportResult<SheetImport[]>> {
+  const fileHash = options.fileHash || await hashContents(contents);
+  return parseViewerFile(contents, fileName, { ...options, fileHash });
+}
+
+/**
+ * Load and process a viewer data file (Excel or delimited text) in the browser
+ */
+export async function processExcelFile(
+  file: File,
+  options: ViewerProcessingOptions = {}
+): Promise<ImportResult<SheetImport[]>> {
+  return processViewerContents(await readFileAsArrayBuffer(file), file.name, options);
+}
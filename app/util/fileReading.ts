@@ -0,0 +1,27 @@
+/**
+ * Browser adapters: read an uploaded File for the parsers, which take the contents
+ * as an ArrayBuffer and do not depend on the File API themselves
+ */
+
+/**
+ * Read a file as binary contents, e.g. an Excel workbook
+ */
+export function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      if (!e.target || !e.target.result) {
+        reject(new Error("Failed to read file contents"));
+        return;
+      }
+      resolve(e.target.result as ArrayBuffer);
+    };
+
+    reader.onerror = () => {
+      reject(new Error('Error reading file'));
+    };
+
+    reader.readAsArrayBuffer(file);
+  });
+}
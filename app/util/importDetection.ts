@@ -0,0 +1,66 @@
+import * as XLSX from 'xlsx';
+import { ImportFileKind } from '../types';
+import { findHeaderRowIndex } from './excelProcessor';
+import { decodeText, isDelimitedTextFile, readDelimitedRows } from './delimitedText';
+import { detectScheduleLayout } from './scheduleLayout';
+import { readFileAsArrayBuffer } from './fileReading';
+
+// Bytes read from a text file to decide what it contains
+const SAMPLE_BYTES = 64 * 1024;
+
+// Rows read from every sheet of a workbook to decide what it contains
+const SAMPLE_ROWS = 50;
+
+/**
+ * Tell viewer data (a Datum/Dag/Tijdvak header) from a program schedule (a grid
+ * with the day names of the week, or a list with date, time and title) by looking
+ * at the rows of a file
+ */
+export function detectImportKind(rows: any[][]): ImportFileKind {
+  if (findHeaderRowIndex(rows) !== -1) {
+    return 'viewer';
+  }
+
+  return detectScheduleLayout(rows) ? 'schedule' : 'unknown';
+}
+
+/**
+ * Detect what the text of a delimited file contains. When the text is only the
+ * start of the file, its last line may be cut off halfway and is left out.
+ */
+export function detectTextKind(text: string, complete: boolean = true): ImportFileKind {
+  const sample = complete ? text : text.split(/\r?\n/).slice(0, -1).join('\n');
+  return detectImportKind(readDelimitedRows(sample));
+}
+
+/**
+ * Detect what a workbook contains from the first rows of its sheets. A workbook
+ * without a recognised sheet counts as viewer data, so the columns can be mapped by hand.
+ */
+export function detectWorkbookKind(contents: ArrayBuffer): ImportFileKind {
+  const workbook = XLSX.read(new Uint8Array(contents), { type: 'array', sheetRows: SAMPLE_ROWS });
+  const kinds = workbook.SheetNames.map(sheetName => {
+    const worksheet = workbook.Sheets[sheetName];
+    return detectImportKind(worksheet ? XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][] : []);
+  });
+  
+  return kinds.includes('schedule') && !kinds.includes('viewer') ? 'schedule' : 'viewer';
+}
+
+/**
+ * Detect what an uploaded file contains. Both workbooks and delimited text can
+ * hold viewer data or a program schedule; of text only the first part is read.
+ */
+export async function detectFileKind(file: File): Promise<ImportFileKind> {
+  if (!isDelimitedTextFile(file.name)) {
+    return detectWorkbookKind(await readFileAsArrayBuffer(file));
+  }
+
+  // Decoded like the whole file, so a Windows-1252 export is read as such. A
+  // sample that stops inside the file is cut after its last line break, so it
+  // does not end halfway through a UTF-8 character.
+  const complete = file.size <= SAMPLE_BYTES;
+  const bytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+  const sample = complete ? bytes : bytes.subarray(0, bytes.lastIndexOf(0x0a) + 1);
+  return detectTextKind(decodeText(sample.slice().buffer).text, complete);
+}
@@ -0,0 +1,162 @@
+import { ImportProfile, ViewerColumnField, ViewerColumnMapping, ViewerColumnDetection } from '../types';
+
+export const VIEWER_COLUMN_FIELDS: ViewerColumnField[] = ['totalViewers', 'percentage', 'calculatedViewers'];
+
+// Fields without which a sheet cannot be processed
+export const REQUIRED_VIEWER_COLUMN_FIELDS: ViewerColumnField[] = ['totalViewers', 'percentage'];
+
+export const VIEWER_COLUMN_LABELS: Record<ViewerColumnField, string> = {
+  totalViewers: 'Dagcijfers (kijkers per dag)',
+  percentage: 'TOTAL (percentage per uur)',
+  calculatedViewers: 'Kijkcijfers per programma (optioneel)'
+};
+
+/**
+ * Built-in profile with the header names used in our regular deliveries
+ */
+export const DEFAULT_IMPORT_PROFILE: ImportProfile = {
+  id: 'default',
+  name: 'Standaard',
+  columns: {
+    totalViewers: {
+      synonyms: ['Dagcijfers', 'kijkdichtheid per dag', 'Kijkers per dag']
+    },
+    percentage: {
+      synonyms: ['TOTAL', 'Totaal', 'percentage']
+    },
+    calculatedViewers: {
+      synonyms: ['Kijkcijfers per programma', 'Kijkcijfer per uur']
+    }
+  }
+};
+
+/**
+ * Thrown when the columns of a sheet cannot be detected with certainty,
+ * so the user has to confirm the mapping before the data is processed
+ */
+export class ColumnMappingRequiredError extends Error {
+  detection: ViewerColumnDetection;
+
+  constructor(detection: ViewerColumnDetection) {
+    super(`Kolommen konden niet zeker worden herkend: ${detection.uncertainFields.join(', ')}`);
+    this.name = 'ColumnMappingRequiredError';
+    this.detection = detection;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ColumnMappingRequiredError.prototype);
+  }
+}
+
+/**
+ * Score how well a header matches a synonym: 2 for an exact match, 1 if it contains it
+ */
+function scoreHeader(header: string, synonym: string): number {
+  const normalizedHeader = header.trim().toLowerCase();
+  const normalizedSynonym = synonym.trim().toLowerCase();
+  if (!normalizedHeader || !normalizedSynonym) return 0;
+  if (normalizedHeader === normalizedSynonym) return 2;
+  if (normalizedHeader.includes(normalizedSynonym)) return 1;
+  return 0;
+}
+
+/**
+ * Detect the viewer columns in a header row using an import profile
+ */
+export function detectViewerColumns(
+  headers: string[],
+  headerRowIndex: number,
+  profile: ImportProfile = DEFAULT_IMPORT_PROFILE
+): ViewerColumnDetection {
+  const mapping: ViewerColumnMapping = {
+    totalViewers: -1,
+    percentage: -1,
+    calculatedViewers: -1
+  };
+  const uncertainFields: ViewerColumnField[] = [];
+  
+  // Best scoring candidate columns per field
+  const candidates = new Map<ViewerColumnField, number[]>();
+  
+  VIEWER_COLUMN_FIELDS.forEach(field => {
+    const rule = profile.columns[field];
+    
+    // An explicit index needs no detection
+    if (rule.index !== undefined && rule.index >= 0 && rule.index < headers.length) {
+      mapping[field] = rule.index;
+      return;
+    }
+    
+    let bestScore = 0;
+    let bestColumns: number[] = [];
+    headers.forEach((header, index) => {
+      const score = Math.max(0, ...rule.synonyms.map(synonym => scoreHeader(header, synonym)));
+      if (score > bestScore) {
+        bestScore = score;
+        bestColumns = [index];
+      } else if (score > 0 && score === bestScore) {
+        bestColumns.push(index);
+      }
+    });
+    candidates.set(field, bestColumns);
+  });
+  
+  // Resolve unambiguous fields first and drop their columns from the other fields,
+  // so a header like "Totaal dagcijfers" does not also count as a TOTAL candidate
+  let resolved = true;
+  while (resolved) {
+    resolved = false;
+    const claimed = new Set(VIEWER_COLUMN_FIELDS.map(field => mapping[field]).filter(index => index !== -1));
+    
+    candidates.forEach((columns, field) => {
+      const remaining = columns.filter(index => !claimed.has(index));
+      if (remaining.length === 1) {
+        mapping[field] = remaining[0];
+        candidates.delete(field);
+        resolved = true;
+      } else {
+        candidates.set(field, remaining);
+      }
+    });
+  }
+  
+  candidates.forEach((columns, field) => {
+    // Several matching columns is always unsure; a missing optional column is fine
+    if (columns.length > 1 || REQUIRED_VIEWER_COLUMN_FIELDS.includes(field)) {
+      uncertainFields.push(field);
+    }
+  });
+  
+  return {
+    headerRowIndex,
+    headers,
+    mapping,
+    uncertainFields
+  };
+}
+
+/**
+ * Create a new import profile from a confirmed column mapping
+ */
+export function createImportProfile(
+  name: string,
+  mapping: ViewerColumnMapping,
+  headers: string[]
+): ImportProfile {
+  const columns = {} as ImportProfile['columns'];
+  
+  VIEWER_COLUMN_FIELDS.forEach(field => {
+    const index = mapping[field];
+    const header = index >= 0 ? (headers[index] || '').trim() : '';
+    
+    // Prefer the header text so the profile survives reordered columns,
+    // fall back to the position when the header is empty
+    columns[field] = header
+      ? { synonyms: [header] }
+      : { synonyms: [], index: index >= 0 ? index : undefined };
+  });
+  
+  return {
+    id: `profile-${Date.now()}`,
+    name,
+    columns
+  };
+}
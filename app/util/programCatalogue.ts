@@ -0,0 +1,248 @@
+import { CatalogueProgram, ProcessedMonthData, ProgramCatalogue, TitleRule } from '../types';
+import { isoWeek } from './dateUtils';
+import { normalizeProgramTitle } from './programIdentity';
+
+export const TITLE_RULE_TARGET_LABELS: Record<TitleRule['target'], string> = {
+  title: 'Titel → programma',
+  series: 'Programma → serie'
+};
+
+export const DEFAULT_TITLE_RULES: TitleRule[] = [
+  { id: 'duration', label: 'Duur tussen haakjes, bijv. "(25)"', pattern: '\\(\\d+\\)', target: 'title', enabled: true, builtIn: true },
+  { id: 'minutes', label: 'Duur in minuten, bijv. "50 min"', pattern: '\\b\\d+\\s*(min|minuten|minutes)\\b\\.?', target: 'title', enabled: true, builtIn: true },
+  { id: 'repeat', label: 'Herhaling, bijv. "herh." of "(herhaling)"', pattern: '\\(?\\b(herh|herhaling)\\b\\.?\\)?', target: 'title', enabled: true, builtIn: true },
+  { id: 'category', label: 'Voorvoegsel "FILM:" of "SERIE:"', pattern: '^\\s*(film|serie)\\s*:', target: 'title', enabled: true, builtIn: true },
+  { id: 'episode', label: 'Aflevering, bijv. "afl. 3"', pattern: '\\s*(afl|aflevering|ep|episode)\\.?\\s*\\d+.*$', target: 'series', enabled: true, builtIn: true },
+  { id: 'subtitle', label: 'Ondertitel na ":" of " - "', pattern: '\\s*(:|\\s[-–]\\s).*$', target: 'series', enabled: true, builtIn: true }
+];
+
+/**
+ * An empty catalogue with the default rules
+ */
+export function createProgramCatalogue(): ProgramCatalogue {
+  return { rules: DEFAULT_TITLE_RULES, programs: [] };
+}
+
+/**
+ * Whether a rule pattern is a valid regular expression
+ */
+export function isValidRulePattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return pattern.trim() !== '';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove what the enabled rules for a target match from a text and tidy the spacing
+ */
+export function applyTitleRules(text: string, rules: TitleRule[], target: TitleRule['target']): string {
+  const result = rules
+    .filter(rule => rule.enabled && rule.target === target && isValidRulePattern(rule.pattern))
+    .reduce((current, rule) => current.replace(new RegExp(rule.pattern, 'gi'), ' '), text);
+  return result.replace(/\s+/g, ' ').trim() || text.trim();
+}
+
+/**
+ * Key under which a schedule title is matched to a program: the title after the
+ * title rules, without case, accents and punctuation
+ */
+export function catalogueKey(title: string, rules: TitleRule[]): string {
+  return normalizeProgramTitle(applyTitleRules(title, rules, 'title'));
+}
+
+// Programs by the titles mapped to them and by the keys of those titles
+interface CatalogueIndex {
+  byTitle: Map<string, CatalogueProgram>;
+  byKey: Map<string, CatalogueProgram>;
+}
+
+function indexTitle(index: CatalogueIndex, rules: TitleRule[], title: string, program: CatalogueProgram): void {
+  index.byTitle.set(title, program);
+  const key = catalogueKey(title, rules);
+  if (!index.byKey.has(key)) index.byKey.set(key, program);
+}
+
+function indexCatalogue(catalogue: ProgramCatalogue): CatalogueIndex {
+  const index: CatalogueIndex = { byTitle: new Map(), byKey: new Map() };
+  catalogue.programs.forEach(program => program.titles.forEach(title => indexTitle(index, catalogue.rules, title, program)));
+  return index;
+}
+
+/**
+ * The program of a schedule title: a title mapped to a program by hand wins over
+ * a program with the same key
+ */
+function findProgram(index: CatalogueIndex, rules: TitleRule[], title: string): CatalogueProgram | undefined {
+  return index.byTitle.get(title) || index.byKey.get(catalogueKey(title, rules));
+}
+
+/**
+ * A program ID from a key that is not used in the catalogue yet
+ */
+function uniqueProgramId(programs: CatalogueProgram[], key: string): string {
+  const base = key || 'programma';
+  const ids = new Set(programs.map(program => program.id));
+  let id = base;
+  for (let suffix = 2; ids.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * A new catalogue program for a schedule title, named after the title without the
+ * noise the rules remove
+ */
+function createCatalogueProgram(programs: CatalogueProgram[], rules: TitleRule[], title: string): CatalogueProgram {
+  const name = applyTitleRules(title, rules, 'title');
+  return {
+    id: uniqueProgramId(programs, catalogueKey(title, rules)),
+    name,
+    series: applyTitleRules(name, rules, 'series'),
+    titles: [title]
+  };
+}
+
+/**
+ * All program titles in the viewer data
+ */
+export function collectProgramTitles(months: ProcessedMonthData[]): string[] {
+  const titles = new Set<string>();
+  months.forEach(month => month.days.forEach(day => (day.programs || []).forEach(program => titles.add(program.title))));
+  return Array.from(titles);
+}
+
+/**
+ * Add the titles the catalogue does not know: to the program with the same key, or
+ * as a new program. The catalogue itself is returned when nothing was added.
+ */
+export function addCatalogueTitles(catalogue: ProgramCatalogue, titles: string[]): ProgramCatalogue {
+  const index = indexCatalogue(catalogue);
+  const unknown = titles.filter((title, position) => !index.byTitle.has(title) && titles.indexOf(title) === position);
+  if (unknown.length === 0) return catalogue;
+
+  const programs = catalogue.programs.slice();
+  unknown.forEach(title => {
+    const existing = findProgram(index, catalogue.rules, title);
+    const program = existing
+      ? { ...existing, titles: existing.titles.concat(title) }
+      : createCatalogueProgram(programs, catalogue.rules, title);
+
+    if (existing) {
+      programs[programs.indexOf(existing)] = program;
+    } else {
+      programs.push(program);
+    }
+    // Point all titles of the program at its new version
+    program.titles.forEach(programTitle => indexTitle(index, catalogue.rules, programTitle, program));
+    index.byKey.forEach((indexed, key) => {
+      if (indexed === existing) index.byKey.set(key, program);
+    });
+  });
+  return { ...catalogue, programs };
+}
+
+/**
+ * Link every program in the viewer data to its catalogue program. Months and days
+ * that are already linked correctly are returned as they are.
+ */
+export function linkProgramsToCatalogue(months: ProcessedMonthData[], catalogue: ProgramCatalogue): ProcessedMonthData[] {
+  const index = indexCatalogue(catalogue);
+  const idsByTitle = new Map<string, string | undefined>();
+  const catalogueIdOf = (title: string) => {
+    if (!idsByTitle.has(title)) idsByTitle.set(title, findProgram(index, catalogue.rules, title)?.id);
+    return idsByTitle.get(title);
+  };
+  let changed = false;
+
+  const linked = months.map(month => {
+    let monthChanged = false;
+    const days = month.days.map(day => {
+      if (!day.programs || day.programs.length === 0) return day;
+
+      const programs = day.programs.map(program => {
+        const catalogueId = catalogueIdOf(program.title);
+        return program.catalogueId === catalogueId ? program : { ...program, catalogueId };
+      });
+      if (programs.every((program, position) => program === day.programs![position])) return day;
+
+      monthChanged = true;
+      return { ...day, programs };
+    });
+
+    if (!monthChanged) return month;
+    changed = true;
+    return { ...month, days };
+  });
+
+  return changed ? linked : months;
+}
+
+function replaceProgram(catalogue: ProgramCatalogue, program: CatalogueProgram): ProgramCatalogue {
+  return { ...catalogue, programs: catalogue.programs.map(existing => existing.id === program.id ? program : existing) };
+}
+
+/**
+ * Change the name or series of a catalogue program
+ */
+export function updateCatalogueProgram(
+  catalogue: ProgramCatalogue,
+  id: string,
+  changes: Partial<Pick<CatalogueProgram, 'name' | 'series'>>
+): ProgramCatalogue {
+  const program = catalogue.programs.find(existing => existing.id === id);
+  if (!program) return catalogue;
+  return replaceProgram(catalogue, { ...program, ...changes });
+}
+
+/**
+ * Merge programs into one: the target keeps its ID and name and gets all titles
+ */
+export function mergeCataloguePrograms(catalogue: ProgramCatalogue, targetId: string, sourceIds: string[]): ProgramCatalogue {
+  const target = catalogue.programs.find(program => program.id === targetId);
+  if (!target) return catalogue;
+
+  const sources = catalogue.programs.filter(program => program.id !== targetId && sourceIds.includes(program.id));
+  const titles = sources.reduce((all, source) => all.concat(source.titles), target.titles);
+
+  return {
+    ...catalogue,
+    programs: catalogue.programs
+      .filter(program => !sources.includes(program))
+      .map(program => program === target ? { ...target, titles } : program)
+  };
+}
+
+/**
+ * Split a title off a program into a program of its own
+ */
+export function splitCatalogueTitle(catalogue: ProgramCatalogue, programId: string, title: string): ProgramCatalogue {
+  const program = catalogue.programs.find(existing => existing.id === programId);
+  if (!program || program.titles.length < 2 || !program.titles.includes(title)) return catalogue;
+
+  const remaining = replaceProgram(catalogue, { ...program, titles: program.titles.filter(existing => existing !== title) });
+  return { ...remaining, programs: remaining.programs.concat(createCatalogueProgram(remaining.programs, catalogue.rules, title)) };
+}
+
+/**
+ * Number of broadcasts and the ISO weeks they fall in, per catalogue program
+ */
+export function summarizeCatalogue(months: ProcessedMonthData[]): Map<string, { broadcasts: number; weeks: number }> {
+  const weeks = new Map<string, Set<string>>();
+  const broadcasts = new Map<string, number>();
+
+  months.forEach(month => month.days.forEach(day => (day.programs || []).forEach(program => {
+    if (!program.catalogueId) return;
+    const week = isoWeek(day.date);
+    broadcasts.set(program.catalogueId, (broadcasts.get(program.catalogueId) || 0) + 1);
+    if (!weeks.has(program.catalogueId)) weeks.set(program.catalogueId, new Set());
+    if (week) weeks.get(program.catalogueId)!.add(`${week.year}-${week.week}`);
+  })));
+
+  const summary = new Map<string, { broadcasts: number; weeks: number }>();
+  broadcasts.forEach((count, id) => summary.set(id, { broadcasts: count, weeks: weeks.get(id)?.size || 0 }));
+  return summary;
+}
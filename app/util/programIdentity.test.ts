@@ -0,0 +1,49 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProgramData } from '../types';
+import { mergePrograms, normalizeProgramTitle, programId } from './programIdentity';
+
+function program(startTime: string, title: string, extra: Partial<ProgramData> = {}): ProgramData {
+  const value: ProgramData = { title, startTime, day: '04-03-2024', sequence: 1, ...extra };
+  return { ...value, id: programId(value, 2) };
+}
+
+describe('normalizeProgramTitle', () => {
+  test('ignores case, accents, punctuation and spacing', () => {
+    assert.equal(normalizeProgramTitle('Café de Wereld!'), 'cafe-de-wereld');
+    assert.equal(normalizeProgramTitle('  cafe de  wereld '), 'cafe-de-wereld');
+  });
+});
+
+describe('programId', () => {
+  test('uses the start in the broadcast day, so a program after midnight gets 24:00 and later', () => {
+    assert.equal(programId({ title: 'Nachtfilm', startTime: '01:30', day: '04-03-2024', sequence: 1 }, 2), '04-03-2024-2530-nachtfilm-1');
+    assert.equal(programId({ title: 'Journaal', startTime: '20:00', day: '04-03-2024' }, 2), '04-03-2024-2000-journaal-1');
+  });
+});
+
+describe('mergePrograms', () => {
+  const existing = [
+    program('18:00', 'Vroeg'),
+    program('20:00', 'Journaal', { catalogueId: 'journaal' }),
+    program('21:00', 'Oude titel'),
+    program('23:00', 'Laat')
+  ];
+
+  test('updates a program with the same identifier and keeps what was added to it', () => {
+    const merged = mergePrograms(existing, [program('20:00', 'Journaal', { genre: 'Nieuws' })], 2);
+    const journaal = merged.find(entry => entry.title === 'Journaal')!;
+    assert.equal(journaal.genre, 'Nieuws');
+    assert.equal(journaal.catalogueId, 'journaal');
+    assert.equal(merged.length, existing.length);
+  });
+
+  test('replaces the other programs within the imported span and keeps those outside it', () => {
+    const merged = mergePrograms(existing, [program('20:00', 'Journaal'), program('22:00', 'Nieuwe titel')], 2);
+    assert.deepEqual(merged.map(entry => entry.title), ['Vroeg', 'Journaal', 'Nieuwe titel', 'Laat']);
+  });
+
+  test('leaves the programs alone when nothing is imported', () => {
+    assert.equal(mergePrograms(existing, [], 2), existing);
+  });
+});
@@ -0,0 +1,61 @@
+import { ProgramData } from '../types';
+import { formatBroadcastSlot, programStartMinute } from './broadcastDay';
+
+/**
+ * Title in a form that ignores case, accents, punctuation and spacing, e.g.
+ * "Café de Wereld!" and "cafe de  wereld" both become "cafe-de-wereld"
+ */
+export function normalizeProgramTitle(title: string): string {
+  return title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Identifier of a program derived from its contents: broadcast date, start in the
+ * broadcast day, normalised title and sequence, e.g. "04-03-2024-2530-nachtfilm-1".
+ * The same schedule imported again gives the same identifiers.
+ */
+export function programId(program: ProgramData, startHour: number): string {
+  const start = formatBroadcastSlot(programStartMinute(program, startHour), startHour, 1).replace(':', '');
+  return `${program.day}-${start}-${normalizeProgramTitle(program.title)}-${program.sequence || 1}`;
+}
+
+/**
+ * Merge newly imported programs of a day into the programs already there. A
+ * program with the same identifier is updated in place, keeping what was added to
+ * it since; the other programs within the imported time span are replaced, so a
+ * corrected title or time does not leave the old entry behind. Programs outside
+ * that span are kept.
+ */
+export function mergePrograms(existing: ProgramData[], incoming: ProgramData[], startHour: number): ProgramData[] {
+  if (incoming.length === 0) return existing;
+
+  const existingById = new Map<string, ProgramData>();
+  existing.forEach(program => {
+    if (program.id) existingById.set(program.id, program);
+  });
+
+  const incomingIds = new Set(incoming.map(program => program.id));
+  const starts = incoming.map(program => programStartMinute(program, startHour));
+  const firstStart = Math.min(...starts);
+  const lastStart = Math.max(...starts);
+
+  const kept = existing.filter(program => {
+    if (program.id && incomingIds.has(program.id)) return false;
+    const start = programStartMinute(program, startHour);
+    return start < firstStart || start > lastStart;
+  });
+
+  const updated = incoming.map(program => {
+    const previous = program.id ? existingById.get(program.id) : undefined;
+    return previous ? { ...previous, ...program } : program;
+  });
+
+  return kept.concat(updated).sort((a, b) =>
+    programStartMinute(a, startHour) - programStartMinute(b, startHour) || (a.sequence || 0) - (b.sequence || 0)
+  );
+}
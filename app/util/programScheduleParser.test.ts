@@ -0,0 +1,164 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CategoryRule, ProgramData, ScheduleData } from '../types';
+import { parseScheduleRows, parseScheduleText } from './programScheduleParser';
+
+const WEEK_GRID = [
+  'Week 10 2024;;',
+  ';maandag;dinsdag',
+  ';04-03-2024;05-03-2024',
+  '20:00;Journaal (25);FILM: De Lift',
+  '21:00;Nieuws herh.;Sport',
+  '0,30;Nacht;Nacht'
+].join('\n');
+
+const LIST = [
+  'Datum;Begintijd;Titel',
+  '04-03-2024;20:00;Journaal',
+  '04-03-2024;20:00;Weer',
+  '04-03-2024;21:00;Film'
+].join('\n');
+
+function programs(data: ScheduleData, date: string): ProgramData[] {
+  return data.days.get(date) || [];
+}
+
+describe('parseScheduleText', () => {
+  const { data, diagnostics } = parseScheduleText(WEEK_GRID, 'week10.csv');
+
+  test('reads the week and the programs per day', () => {
+    assert.equal(data.layout, 'week-grid');
+    assert.equal(data.weekNumber, 10);
+    assert.equal(data.year, 2024);
+    assert.deepEqual(Array.from(data.days.keys()).sort(), ['04-03-2024', '05-03-2024']);
+    assert.deepEqual(programs(data, '05-03-2024').map(program => program.title), ['FILM: De Lift', 'Sport', 'Nacht']);
+  });
+
+  test('cleans the title, keeps the duration and calculates end times', () => {
+    const [journaal, nieuws] = programs(data, '04-03-2024');
+    assert.equal(journaal.title, 'Journaal');
+    assert.equal(journaal.duration, 25);
+    assert.equal(journaal.startTime, '20:00');
+    assert.equal(nieuws.endTime, '00:30');
+  });
+
+  test('keeps a program after midnight on the broadcast day of the evening before', () => {
+    const night = programs(data, '04-03-2024')[2];
+    assert.equal(night.title, 'Nacht');
+    assert.equal(night.startTime, '00:30');
+    assert.equal(night.startMinute, 22 * 60 + 30);
+  });
+
+  test('derives program identifiers from the contents', () => {
+    assert.deepEqual(programs(data, '04-03-2024').map(program => program.id), [
+      '04-03-2024-2000-journaal-1',
+      '04-03-2024-2100-nieuws-herh-1',
+      '04-03-2024-2430-nacht-1'
+    ]);
+    assert.deepEqual(programs(parseScheduleText(WEEK_GRID, 'week10.csv').data, '04-03-2024').map(program => program.id),
+      programs(data, '04-03-2024').map(program => program.id));
+  });
+
+  test('categorises with the default rules', () => {
+    assert.equal(programs(data, '05-03-2024')[0].category, 'Film');
+    assert.equal(programs(data, '04-03-2024')[1].isRepeat, true);
+    assert.equal(programs(data, '04-03-2024')[0].isRepeat, undefined);
+  });
+
+  test('categorises with the given rules', () => {
+    const rules: CategoryRule[] = [
+      { id: 'sport', label: 'Sport', matchType: 'keyword', pattern: 'sport', assign: { genre: 'Sport' }, enabled: true }
+    ];
+    const { data: custom } = parseScheduleText(WEEK_GRID, 'week10.csv', { categoryRules: rules });
+    assert.equal(programs(custom, '05-03-2024')[1].genre, 'Sport');
+    assert.equal(programs(custom, '05-03-2024')[0].category, undefined);
+  });
+
+  test('summarises the import in the diagnostics', () => {
+    assert.ok(diagnostics.entries.some(entry => entry.category === 'summary' && /6 programma's, week 10\/2024/.test(entry.message)));
+  });
+});
+
+describe('parseScheduleText with several weeks', () => {
+  const grid = [
+    'Week 10;;',
+    ';maandag;dinsdag',
+    ';04-03-2024;05-03-2024',
+    '20:00;Journaal;Sport',
+    'Week 11;;',
+    '20:00;Quiz;Film'
+  ].join('\n');
+
+  test('gives a block with only a week number the dates of that week', () => {
+    const { data } = parseScheduleText(grid, 'weken.csv');
+    assert.equal(data.layout, 'multi-week-grid');
+    assert.deepEqual(data.weeks, [10, 11]);
+    assert.deepEqual(programs(data, '11-03-2024').map(program => [program.title, program.week]), [['Quiz', 11]]);
+    assert.deepEqual(programs(data, '12-03-2024').map(program => [program.title, program.week]), [['Film', 11]]);
+  });
+});
+
+describe('parseScheduleText with a list', () => {
+  const { data } = parseScheduleText(LIST, 'lijst.csv');
+
+  test('detects the list layout', () => {
+    assert.equal(data.layout, 'list');
+    assert.deepEqual(programs(data, '04-03-2024').map(program => program.title), ['Journaal', 'Weer', 'Film']);
+  });
+
+  test('notes programs that share a time slot once', () => {
+    assert.deepEqual(programs(data, '04-03-2024').map(program => [program.sequence, program.notes]), [
+      [1, 'Multiple programs (1/2)'],
+      [2, 'Multiple programs (2/2)'],
+      [undefined, undefined]
+    ]);
+  });
+
+  test('orders the programs of a broadcast day across midnight', () => {
+    const list = [
+      'Datum;Begintijd;Titel',
+      '04-03-2024;23:30;Laat',
+      '04-03-2024;00:30;Nacht',
+      '04-03-2024;22:00;Eerder',
+      '05-03-2024;01:00;Vroeg'
+    ].join('\n');
+    const { data: night } = parseScheduleText(list, 'nacht.csv');
+    assert.deepEqual(Array.from(night.days.keys()), ['04-03-2024']);
+    assert.deepEqual(programs(night, '04-03-2024').map(program => [program.title, program.startMinute]), [
+      ['Eerder', 20 * 60],
+      ['Laat', 21 * 60 + 30],
+      ['Nacht', 22 * 60 + 30],
+      ['Vroeg', 23 * 60]
+    ]);
+  });
+});
+
+describe('parseScheduleText with genre and repeat columns', () => {
+  test('takes genre and repeat from the columns over the rules', () => {
+    const list = [
+      'Datum;Begintijd;Titel;Genre;Herhaling',
+      '04-03-2024;23:30;Laat;Talk;',
+      '04-03-2024;00:30;Nacht herh.;;nee',
+      '04-03-2024;22:00;Eerder;;ja'
+    ].join('\n');
+    const [eerder, laat, nacht] = programs(parseScheduleText(list, 'lijst.csv').data, '04-03-2024');
+    assert.equal(laat.genre, 'Talk');
+    assert.equal(eerder.isRepeat, true);
+    // "herh." in the title, but the repeat column says no
+    assert.equal(nacht.isRepeat, false);
+    assert.deepEqual(nacht.fileClassification, { isRepeat: false });
+  });
+});
+
+describe('parseScheduleRows', () => {
+  test('reads rows from any source with the given broadcast day start', () => {
+    const rows = [['Datum', 'Begintijd', 'Titel'], ['04-03-2024', '01:30', 'Nacht']];
+    const { data } = parseScheduleRows(rows, 'rijen', { broadcastDayStartHour: 0 });
+    assert.equal(data.broadcastDayStartHour, 0);
+    assert.deepEqual(programs(data, '04-03-2024').map(program => program.startMinute), [90]);
+  });
+
+  test('reports rows without a layout it knows', () => {
+    assert.throws(() => parseScheduleRows([['a', 'b'], ['1', '2']], 'leeg'));
+  });
+});
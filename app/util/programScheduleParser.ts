@@ -1,291 +1,700 @@
-import { ProgramData, ScheduleData } from '../types';
+import * as XLSX from 'xlsx';
+import { CategoryRule, ProgramData, ScheduleData, ScheduleLayout, ImportDiagnostics, ImportResult } from '../types';
+import { createDiagnostics, addDiagnostic } from './diagnostics';
+import { addDays, dateFromIsoWeek, excelSerialToDate, isoWeek, isoWeeksInYear, normalizeDate } from './dateUtils';
+import { readFileAsArrayBuffer } from './fileReading';
+import { mergePrograms, programId } from './programIdentity';
+import { DEFAULT_CATEGORY_RULES, applyCategoryRules } from './categoryRules';
+import { DEFAULT_BROADCAST_DAY_START_HOUR, HOURS_PER_DAY, MINUTES_PER_HOUR, getDayStartHour, parseTimeMinutes, programStartMinute, toBroadcastMinute } from './broadcastDay';
+import { TEXT_ENCODING_LABELS, decodeText, isDelimitedTextFile, parseDelimitedText } from './delimitedText';
+import {
+  DAY_NAMES,
+  SCHEDULE_LAYOUT_LABELS,
+  ScheduleListField,
+  detectScheduleLayout,
+  findScheduleListHeader,
+  isDayHeaderRow,
+  isTimeCell,
+  weekMarker
+} from './scheduleLayout';
 
 /**
- * Parses TV program schedule from CSV data
+ * A block of merged cells in a workbook (zero-based, inclusive)
  */
-export async function parseScheduleCSV(file: File): Promise<ScheduleData> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+export interface MergedCellRange {
+  firstRow: number;
+  lastRow: number;
+  firstColumn: number;
+  lastColumn: number;
+}
+
+export interface ScheduleParseOptions {
+  broadcastDayStartHour?: number;    // Hour the broadcast day starts at, as for the viewer data
+  categoryRules?: CategoryRule[];    // Rules that give programs their category, genre and repeat flag
+}
+
+export interface ScheduleRowsOptions extends ScheduleParseOptions {
+  merges?: MergedCellRange[];        // Merged cells of the sheet the rows come from
+  diagnostics?: ImportDiagnostics;   // Add to these diagnostics, e.g. for a workbook with several sheets
+}
+
+/**
+ * State shared by the layout strategies while a schedule is read
+ */
+interface ScheduleParseContext {
+  result: ScheduleData;
+  diagnostics: ImportDiagnostics;
+  merges: MergedCellRange[];
+  startHour: number;
+  movedPrograms: number; // Programs placed on the broadcast day before the date in the file
+}
+
+// A column of a grid with the programs of one day
+interface DayColumn {
+  name: string;
+  index: number;
+  date: string;
+}
+
+// Each layout has its own strategy; they all fill the same ScheduleData
+const SCHEDULE_STRATEGIES: Record<ScheduleLayout, (rows: string[][], context: ScheduleParseContext) => void> = {
+  'week-grid': (rows, context) => parseGrid(rows, context, false),
+  'multi-week-grid': (rows, context) => parseGrid(rows, context, true),
+  'list': parseList
+};
+
+/**
+ * Parses a TV program schedule from a CSV file or Excel workbook in the browser
+ */
+export async function parseScheduleFile(file: File, options: ScheduleParseOptions = {}): Promise<ImportResult<ScheduleData>> {
+  return parseScheduleContents(await readFileAsArrayBuffer(file), file.name, options);
+}
+
+/**
+ * Parses a TV program schedule from the bytes of a file: a CSV file in UTF-8 or
+ * Windows-1252, or an Excel workbook
+ */
+export function parseScheduleContents(
+  contents: ArrayBuffer,
+  fileName: string,
+  options: ScheduleParseOptions = {}
+): ImportResult<ScheduleData> {
+  if (!isDelimitedTextFile(fileName)) {
+    return parseScheduleWorkbook(contents, fileName, options);
+  }
+  
+  const { text, encoding } = decodeText(contents);
+  const result = parseScheduleText(text, fileName, options);
+  
+  if (encoding !== 'utf-8') {
+    addDiagnostic(result.diagnostics, {
+      level: 'info',
+      category: 'column',
+      message: `Tekenset: ${TEXT_ENCODING_LABELS[encoding]}`
+    });
+  }
+  return result;
+}
+
+/**
+ * Parses a TV program schedule from the text of a CSV file; also used outside the browser
+ */
+export function parseScheduleText(csvContent: string, fileName: string, options: ScheduleParseOptions = {}): ImportResult<ScheduleData> {
+  return parseScheduleRows(parseDelimitedText(csvContent), fileName, options);
+}
+
+/**
+ * Parses a TV program schedule from an Excel workbook. Every sheet that looks like
+ * a schedule is read, e.g. one sheet per week; the other sheets are skipped.
+ */
+export function parseScheduleWorkbook(
+  contents: ArrayBuffer,
+  fileName: string,
+  options: ScheduleParseOptions = {}
+): ImportResult<ScheduleData> {
+  const diagnostics = createDiagnostics(fileName);
+  const workbook = XLSX.read(new Uint8Array(contents), { type: 'array', cellNF: true });
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  let combined: ScheduleData | null = null;
+  
+  workbook.SheetNames.forEach(sheetName => {
+    const worksheet = workbook.Sheets[sheetName];
+    const sheet = worksheet ? readScheduleSheet(worksheet, date1904) : { rows: [], merges: [] };
     
-    reader.onload = (e) => {
-      try {
-        if (!e.target || !e.target.result) {
-          throw new Error("Failed to read CSV file");
-        }
-        
-        const csvContent = e.target.result.toString();
-        const lines = csvContent.split('\n');
-        
-        // Initialize results
-        const result: ScheduleData = {
-          weekNumber: 0,
-          year: new Date().getFullYear(),
-          days: new Map<string, ProgramData[]>()
-        };
-        
-        // For multi-week schedules
-        result.weeks = [];
-        
-        // Extract week number and year from the first few rows
-        for (let i = 0; i < Math.min(5, lines.length); i++) {
-          const line = lines[i];
-          
-          // Look for week number (typically in 3rd row)
-          const weekMatch = line.match(/^(\d{1,2}),/);
-          if (weekMatch && weekMatch[1]) {
-            const weekNum = parseInt(weekMatch[1], 10);
-            result.weekNumber = weekNum;
-            
-            // Add to weeks list if not already there
-            if (!result.weeks.includes(weekNum)) {
-              result.weeks.push(weekNum);
-            }
-          }
-          
-          // Look for year in date formats (e.g., 25-Dec-2024)
-          const yearMatch = line.match(/\b(20\d{2})\b/);
-          if (yearMatch && yearMatch[1]) {
-            result.year = parseInt(yearMatch[1], 10);
-          }
-        }
-        
-        // Check for other week numbers in the document (for multi-week schedules)
-        for (let i = 5; i < lines.length; i++) {
-          const line = lines[i];
-          if (!line || line.length < 2) continue;
-          
-          // Look for standalone week numbers at the start of lines
-          const weekMatch = line.match(/^([1-9][0-9]?),/);
-          if (weekMatch && weekMatch[1]) {
-            const weekNum = parseInt(weekMatch[1], 10);
-            
-            // Add to weeks list if not already there
-            if (!result.weeks.includes(weekNum)) {
-              result.weeks.push(weekNum);
-            }
-          }
-        }
-        
-        // Find the days row (usually the 2nd row)
-        const dayNames = ['maandag', 'dinsdag', 'woensdag', 'donderdag', 'vrijdag', 'zaterdag', 'zondag'];
-        let dayRowIndex = -1;
-        
-        for (let i = 0; i < 5; i++) {
-          const rowLower = lines[i].toLowerCase();
-          if (dayNames.some(day => rowLower.includes(day))) {
-            dayRowIndex = i;
-            break;
-          }
-        }
-        
-        if (dayRowIndex === -1) {
-          throw new Error("Could not find day headers in CSV");
-        }
-        
-        // The dates row is right after the days row
-        const datesRowIndex = dayRowIndex + 1;
-        
-        // Parse the day columns
-        const daysCols: {
-          name: string;
-          index: number;
-          date: string;
-        }[] = [];
-        
-        const daysRow = parseCsvRow(lines[dayRowIndex]);
-        const datesRow = parseCsvRow(lines[datesRowIndex]);
-        
-        // Find which columns contain days of the week
-        for (let i = 0; i < daysRow.length; i++) {
-          const cell = daysRow[i].toLowerCase();
-          for (const day of dayNames) {
-            if (cell.includes(day)) {
-              daysCols.push({
-                name: day,
-                index: i,
-                date: formatDateString(datesRow[i], result.year)
-              });
-              break;
-            }
-          }
-        }
-        
-        if (daysCols.length === 0) {
-          throw new Error("Could not identify day columns");
-        }
-        
-        // Initialize program arrays for each day
-        daysCols.forEach(({ date }) => {
-          if (date) {
-            result.days.set(date, []);
-          }
+    if (!detectScheduleLayout(sheet.rows)) {
+      addDiagnostic(diagnostics, {
+        level: 'info',
+        category: 'skipped-row',
+        sheet: sheetName,
+        message: 'Geen dagnamen of programmalijst gevonden; blad overgeslagen'
+      });
+      return;
+    }
+    
+    addDiagnostic(diagnostics, {
+      level: 'info',
+      category: 'column',
+      sheet: sheetName,
+      message: `Programmaschema gelezen uit blad "${sheetName}"`
+    });
+    const { data } = parseScheduleRows(sheet.rows, fileName, { ...options, merges: sheet.merges, diagnostics });
+    combined = combined ? combineSchedules(combined, data) : data;
+  });
+  
+  if (!combined) {
+    throw new Error("Could not find a program schedule in any sheet of the Excel file");
+  }
+  return { data: combined, diagnostics };
+}
+
+/**
+ * The cells of a worksheet as text, the way a CSV export of the sheet would read:
+ * time cells as "20:00" (or "25:00" past midnight) and date cells as DD-MM-YYYY
+ */
+function readScheduleSheet(worksheet: XLSX.WorkSheet, date1904: boolean): { rows: string[][]; merges: MergedCellRange[] } {
+  const rows: string[][] = [];
+  if (!worksheet['!ref']) return { rows, merges: [] };
+  
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  for (let row = 0; row <= range.e.r; row++) {
+    const cells: string[] = [];
+    for (let column = 0; column <= range.e.c; column++) {
+      cells.push(scheduleCellText(worksheet[XLSX.utils.encode_cell({ r: row, c: column })], date1904));
+    }
+    rows.push(cells);
+  }
+  
+  const merges = (worksheet['!merges'] || []).map(merge => ({
+    firstRow: merge.s.r,
+    lastRow: merge.e.r,
+    firstColumn: merge.s.c,
+    lastColumn: merge.e.c
+  }));
+  return { rows, merges };
+}
+
+/**
+ * The text of one worksheet cell. Dates and times are written out from their
+ * serial value, because the formatted text follows the locale of the format
+ * (Excel's default date format reads as M/D/YY).
+ */
+function scheduleCellText(cell: XLSX.CellObject | undefined, date1904: boolean): string {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+  
+  if (cell.t === 'n' && typeof cell.v === 'number' && cell.z && XLSX.SSF.is_date(cell.z)) {
+    // Drop colours and elapsed-time brackets before looking for day, month and year parts
+    const format = String(cell.z).replace(/\[(?!h\])[^\]]*\]/gi, '').toLowerCase();
+    if (/[dy]/.test(format) || (/m/.test(format) && !/[hs]/.test(format))) {
+      return excelSerialToDate(cell.v, date1904);
+    }
+    
+    const minutes = Math.round(cell.v * 24 * 60);
+    const hours = /\[h\]/.test(format) ? Math.floor(minutes / 60) : Math.floor(minutes / 60) % 24;
+    return `${hours}:${(minutes % 60).toString().padStart(2, '0')}`;
+  }
+  
+  return String(cell.w ?? cell.v).trim();
+}
+
+/**
+ * Combine the schedules of two sheets of one workbook; a day in both sheets keeps
+ * one entry per program
+ */
+function combineSchedules(first: ScheduleData, second: ScheduleData): ScheduleData {
+  const days = new Map(first.days);
+  second.days.forEach((programs, date) => {
+    days.set(date, mergePrograms(days.get(date) || [], programs, getDayStartHour(first)));
+  });
+  
+  const weeks = Array.from(new Set((first.weeks || []).concat(second.weeks || []))).sort((a, b) => a - b);
+  return { ...first, days, weeks };
+}
+
+/**
+ * Parses a TV program schedule from the rows of a file: detects the layout and
+ * reads the programs with the matching strategy. Programs are placed on broadcast
+ * days like the viewer data: a program after midnight but before the start hour
+ * belongs to the day before.
+ */
+export function parseScheduleRows(rows: string[][], fileName: string, options: ScheduleRowsOptions = {}): ImportResult<ScheduleData> {
+  const diagnostics = options.diagnostics || createDiagnostics(fileName);
+  
+  const layout = detectScheduleLayout(rows);
+  if (!layout) {
+    throw new Error("Could not find day headers or a program list header in the schedule");
+  }
+  
+  const header = readScheduleHeader(rows);
+  const startHour = options.broadcastDayStartHour ?? DEFAULT_BROADCAST_DAY_START_HOUR;
+  const result: ScheduleData = {
+    weekNumber: header.weekNumber,
+    year: header.year,
+    days: new Map<string, ProgramData[]>(),
+    weeks: [],
+    layout,
+    broadcastDayStartHour: startHour
+  };
+  
+  addDiagnostic(diagnostics, {
+    level: 'info',
+    category: 'column',
+    message: `Indeling: ${SCHEDULE_LAYOUT_LABELS[layout]}`
+  });
+  
+  const context: ScheduleParseContext = { result, diagnostics, merges: options.merges || [], startHour, movedPrograms: 0 };
+  SCHEDULE_STRATEGIES[layout](rows, context);
+  
+  if (context.movedPrograms > 0) {
+    addDiagnostic(diagnostics, {
+      level: 'info',
+      category: 'time-slot',
+      message: `${context.movedPrograms} programma's vóór ${startHour.toString().padStart(2, '0')}:00 horen bij de uitzenddag van de dag ervoor`
+    });
+  }
+  
+  // Calculate end times based on the next program's start time
+  calculateEndTimes(result, diagnostics);
+  
+  // Identifiers follow from the contents, so a schedule imported again can update its programs
+  result.days.forEach(programs => programs.forEach(program => {
+    program.id = programId(program, startHour);
+  }));
+  
+  const rules = options.categoryRules || DEFAULT_CATEGORY_RULES;
+  result.days.forEach((programs, date) => result.days.set(date, applyCategoryRules(programs, rules)));
+  
+  const weeks = new Set<number>();
+  result.days.forEach(programs => programs.forEach(program => {
+    if (program.week) weeks.add(program.week);
+  }));
+  result.weeks = Array.from(weeks).sort((a, b) => a - b);
+  if (!result.weekNumber && result.weeks.length > 0) {
+    result.weekNumber = result.weeks[0];
+  }
+  
+  const totalPrograms = Array.from(result.days.values())
+    .reduce((total, programs) => total + programs.length, 0);
+  addDiagnostic(diagnostics, {
+    level: 'info',
+    category: 'summary',
+    message: `${result.days.size} dagen, ${totalPrograms} programma's, week ${result.weekNumber}/${result.year}`
+  });
+  
+  return { data: result, diagnostics };
+}
+
+/**
+ * Week number and year from the first rows of a schedule
+ */
+function readScheduleHeader(rows: string[][]): { weekNumber: number; year: number } {
+  let weekNumber = 0;
+  let year = new Date().getFullYear();
+  
+  rows.slice(0, 5).forEach(row => {
+    const week = weekMarker(row);
+    if (week !== null && !weekNumber) {
+      weekNumber = week;
+    }
+    
+    // Look for year in date formats (e.g., 25-Dec-2024)
+    const yearMatch = row.join(' ').match(/\b(20\d{2})\b/);
+    if (yearMatch && yearMatch[1]) {
+      year = parseInt(yearMatch[1], 10);
+    }
+  });
+  
+  return { weekNumber, year };
+}
+
+/**
+ * Read a grid: a header row with the days, a row with their dates below it, and a
+ * row per start time with the program of every day. With several weeks, week
+ * numbers and repeated day headers divide the rows into blocks, read one after
+ * the other: a block with its own day header uses its own dates, a block with
+ * only a week number continues from the dates of the block before it. A cell merged over
+ * several time rows is one longer program; merged over several days, it is
+ * broadcast on each of them.
+ */
+function parseGrid(rows: string[][], context: ScheduleParseContext, multiWeek: boolean): void {
+  const { result, diagnostics } = context;
+  // The day columns of the current block and the week their dates belong to
+  let columns: DayColumn[] = [];
+  let columnsWeek: number | undefined;
+  let foundColumns = false;
+  let currentWeek = result.weekNumber || undefined;
+  // Times of the current block; a time earlier than the one above it is past midnight
+  let previousMinutes: number | undefined;
+  let nightOffset = 0;
+  
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    const rowData = rows[rowIndex];
+    
+    if (isDayHeaderRow(rowData)) {
+      previousMinutes = undefined;
+      nightOffset = 0;
+
+      // The dates row is right after the days row, unless the times start there
+      const nextRow = rows[rowIndex + 1] || [];
+      const datesRow = isTimeCell(nextRow[0]) ? [] : nextRow;
+      // Week numbers after the last week of a year belong to the next year
+      const previous = isoWeekOfColumns(columns);
+      const weekYear = previous && currentWeek !== undefined ? previous.year + (currentWeek < previous.week ? 1 : 0) : result.year;
+      columns = readDayColumns(rowData, datesRow, rowIndex, context, currentWeek, weekYear);
+      columnsWeek = currentWeek ?? isoWeekOfColumns(columns)?.week;
+      foundColumns = foundColumns || columns.length > 0;
+      if (datesRow.length > 0) rowIndex++;
+      continue;
+    }
+    
+    const week = weekMarker(rowData);
+    if (week !== null) {
+      if (multiWeek) currentWeek = week;
+      previousMinutes = undefined;
+      nightOffset = 0;
+      continue;
+    }
+    
+    if (columns.length === 0 || rowData.length < 3) continue;
+    
+    // Get the time from the first column
+    const timeCell = rowData[0];
+    if (!timeCell) continue;
+    
+    // Skip if it's not a time row
+    const clockMinutes = isTimeCell(timeCell) ? parseTimeMinutes(timeCell) : null;
+    if (clockMinutes === null) {
+      // Only report rows that look like they carry programs
+      if (columns.some(({ index }) => rowData[index] && !isLikelyDate(rowData[index]))) {
+        addDiagnostic(diagnostics, {
+          level: 'warning',
+          category: 'time-slot',
+          row: rowIndex + 1,
+          message: `Tijd "${timeCell}" kon niet worden gelezen; rij overgeslagen`
         });
-        
-        // Find where the time rows start (typically after a few empty rows)
-        let timeStartRow = datesRowIndex + 1;
-        while (timeStartRow < lines.length) {
-          const row = parseCsvRow(lines[timeStartRow]);
-          // Look for time format in first column (e.g., "0,00")
-          if (row[0] && /^\d{1,2}(,\d{2}|\.\d{2}|\:\d{2})$/.test(row[0])) {
-            break;
-          }
-          timeStartRow++;
-        }
-        
-        // Process each time row
-        for (let rowIndex = timeStartRow; rowIndex < lines.length; rowIndex++) {
-          const rowData = parseCsvRow(lines[rowIndex]);
-          if (rowData.length < 3) continue;
-          
-          // Get the time from the first column
-          const timeCell = rowData[0];
-          if (!timeCell) continue;
-          
-          // Skip if it's not a time row
-          if (!/^\d{1,2}(,\d{2}|\.\d{2}|\:\d{2})$/.test(timeCell)) {
-            continue;
-          }
-          
-          // Normalize time format
-          const normalizedTime = normalizeTimeFormat(timeCell);
-          
-          // Process each day's program at this time
-          for (const { index, date } of daysCols) {
-            if (!date || !result.days.has(date)) continue;
-            
-            const programTitle = rowData[index];
-            if (!programTitle || programTitle === 'x' || /^\d+([,.]\d+)?$/.test(programTitle)) {
-              continue;
-            }
-            
-            // Skip if it's likely a date rather than a program title
-            if (isLikelyDate(programTitle)) {
-              continue;
-            }
-            
-            // Determine the current week number
-            let currentWeek = result.weekNumber;
-            
-            // For multi-week schedules, try to determine the week from context
-            if (result.weeks.length > 1) {
-              // Find the closest week number declaration before this row
-              for (let w = rowIndex; w >= 0; w--) {
-                const weekLine = lines[w];
-                if (!weekLine) continue;
-                
-                const weekMatch = weekLine.match(/^([1-9][0-9]?),/);
-                if (weekMatch && weekMatch[1]) {
-                  currentWeek = parseInt(weekMatch[1], 10);
-                  break;
-                }
-              }
-            }
-            
-            // Create a program entry with unique ID
-            const program: ProgramData = {
-              id: `${date}-${normalizedTime}-${Math.random().toString(36).substring(2, 9)}`,
-              title: cleanProgramTitle(programTitle),
-              startTime: normalizedTime,
-              day: date,
-              dayOfWeek: getDayOfWeek(date),
-              originalTime: timeCell, // Store original time for debugging
-              week: currentWeek // Add week number
-            };
-            
-            // Parse duration from different formats
-            // Format 1: Number in parentheses, e.g. "Title (25)"
-            const durationMatch1 = programTitle.match(/\((\d+)\)/);
-            if (durationMatch1) {
-              program.duration = parseInt(durationMatch1[1], 10);
-            }
-            
-            // Format 2: Duration at the end, e.g. "Title 50 min"
-            const durationMatch2 = programTitle.match(/(\d+)\s*(?:min|minutes|minuten)$/i);
-            if (!program.duration && durationMatch2) {
-              program.duration = parseInt(durationMatch2[1], 10);
-            }
-            
-            // Format 3: Specific time mentioned, e.g. "0.36" or "1.4" or "2.13"
-            const timePointMatch = programTitle.match(/\b(\d+)[,.](\d{1,2})\b/);
-            if (!program.duration && timePointMatch) {
-              // This might be a time point rather than a duration; store it for reference
-              program.timePoint = `${timePointMatch[1].padStart(2, '0')}:${timePointMatch[2].padStart(2, '0')}`;
-            }
-            
-            // Check if it's a repeat
-            if (programTitle.toLowerCase().includes('herhaling') || 
-                programTitle.toLowerCase().includes('herh')) {
-              program.isRepeat = true;
-            }
-            
-            // Add notes for special cases
-            if (programTitle.includes('FILM:') || programTitle.includes('film:')) {
-              program.category = 'Film';
-            } else if (programTitle.includes('SERIE:') || programTitle.includes('serie:')) {
-              program.category = 'Series';
-            }
-            
-            // Handle potential overrides by time slot (grouping by time slot and week)
-            const existingPrograms = result.days.get(date)!.filter(p => 
-              p.startTime === normalizedTime && p.week === currentWeek
-            );
-            
-            if (existingPrograms.length > 0) {
-              // If we already have a program at this time in the same week, add a sequence indicator
-              program.sequence = existingPrograms.length + 1;
-              program.notes = program.notes || '';
-              if (program.notes) program.notes += ', ';
-              program.notes += `Multiple programs at ${normalizedTime} (Week ${currentWeek})`;
-            }
-            
-            // Add to the schedule
-            result.days.get(date)!.push(program);
-          }
-        }
-        
-        // Calculate end times based on the next program's start time
-        calculateEndTimes(result);
-        
-        resolve(result);
-      } catch (error) {
-        console.error("Error parsing schedule CSV:", error);
-        reject(error);
       }
-    };
+      continue;
+    }
     
-    reader.onerror = () => {
-      reject(new Error('Error reading file'));
-    };
+    // A week without its own day header: its dates follow on from the block before
+    if (currentWeek !== undefined && columnsWeek !== undefined && currentWeek !== columnsWeek) {
+      columns = shiftDayColumns(columns, columnsWeek, currentWeek, rowIndex, context);
+      columnsWeek = currentWeek;
+    }
+    
+    // Normalize time format
+    const normalizedTime = normalizeTimeFormat(timeCell);
+    
+    // A grid runs on past midnight (00:30 below 23:30); those rows belong to the night after
+    if (previousMinutes !== undefined && nightOffset === 0 && clockMinutes < previousMinutes) {
+      nightOffset = HOURS_PER_DAY * MINUTES_PER_HOUR;
+    }
+    const minutes = clockMinutes < HOURS_PER_DAY * MINUTES_PER_HOUR ? clockMinutes + nightOffset : clockMinutes;
+    previousMinutes = minutes;
     
-    reader.readAsText(file);
+    // Process each day's program at this time
+    for (const { index, date } of columns) {
+      if (!date || !result.days.has(date)) continue;
+      
+      // The rows below the first row of a merged cell continue its program
+      const merge = findMerge(context.merges, rowIndex, index);
+      if (merge && merge.firstRow < rowIndex) continue;
+      
+      const programTitle = merge ? rows[merge.firstRow][merge.firstColumn] : rowData[index];
+      if (!programTitle || programTitle === 'x' || /^\d+([,.]\d+)?$/.test(programTitle)) {
+        continue;
+      }
+      
+      // Skip if it's likely a date rather than a program title
+      if (isLikelyDate(programTitle)) {
+        addDiagnostic(diagnostics, {
+          level: 'info',
+          category: 'skipped-row',
+          row: rowIndex + 1,
+          date,
+          message: `Cel "${programTitle}" om ${normalizedTime} lijkt een datum en is overgeslagen`
+        });
+        continue;
+      }
+      
+      const program = createScheduledProgram(context, programTitle, date, minutes, timeCell, currentWeek ?? isoWeek(date)?.week);
+      if (merge && merge.lastRow > rowIndex) {
+        setMergedEndTime(program, rows, merge, diagnostics);
+      }
+      addProgram(context, program);
+    }
+  }
+  
+  if (!foundColumns) {
+    throw new Error("Could not identify day columns");
+  }
+}
+
+/**
+ * The merged cells that cover a cell, if any
+ */
+function findMerge(merges: MergedCellRange[], row: number, column: number): MergedCellRange | undefined {
+  return merges.find(merge =>
+    row >= merge.firstRow && row <= merge.lastRow && column >= merge.firstColumn && column <= merge.lastColumn
+  );
+}
+
+/**
+ * A program in a cell merged over several time rows ends at the first time row
+ * below the merged cell
+ */
+function setMergedEndTime(program: ProgramData, rows: string[][], merge: MergedCellRange, diagnostics: ImportDiagnostics): void {
+  const endRow = rows.slice(merge.lastRow + 1).find(row => isTimeCell(row[0]));
+  if (!endRow) return;
+  
+  program.endTime = normalizeTimeFormat(endRow[0]);
+  if (!program.duration) {
+    const [startHour, startMinute] = program.startTime.split(':').map(Number);
+    const [endHour, endMinute] = program.endTime.split(':').map(Number);
+    program.duration = ((endHour - startHour) * 60 + (endMinute - startMinute) + 24 * 60) % (24 * 60);
+  }
+  
+  addDiagnostic(diagnostics, {
+    level: 'info',
+    category: 'time-slot',
+    row: merge.firstRow + 1,
+    date: program.day,
+    message: `Samengevoegde cel: "${program.title}" van ${program.startTime} tot ${program.endTime}`
+  });
+}
+
+/**
+ * The day columns of a grid and their dates from the row below the day names.
+ * Without a dates row, the dates follow from the week number.
+ */
+function readDayColumns(
+  daysRow: string[],
+  datesRow: string[],
+  dayRowIndex: number,
+  context: ScheduleParseContext,
+  week?: number,
+  weekYear: number = context.result.year
+): DayColumn[] {
+  const { result, diagnostics } = context;
+  const columns: DayColumn[] = [];
+  
+  // Find which columns contain days of the week
+  daysRow.forEach((cell, index) => {
+    const day = DAY_NAMES.find(name => cell.toLowerCase().includes(name));
+    if (day) {
+      const dateCell = datesRow[index];
+      columns.push({
+        name: day,
+        index,
+        date: dateCell || !week
+          ? formatDateString(dateCell, result.year, diagnostics, dayRowIndex + 2)
+          : dateFromIsoWeek(week, weekYear, DAY_NAMES.indexOf(day) + 1)
+      });
+    }
+  });
+  
+  addDiagnostic(diagnostics, {
+    level: 'info',
+    category: 'column',
+    row: dayRowIndex + 1,
+    message: `Dagkolommen: ${columns.map(({ name, index, date }) => `${name} (kolom ${index + 1}, ${date || 'geen datum'})`).join('; ')}`
+  });
+  
+  // Initialize program arrays for each day
+  columns.forEach(({ date }) => {
+    if (date && !result.days.has(date)) {
+      result.days.set(date, []);
+    }
   });
+  
+  return columns;
+}
+
+/**
+ * The ISO week (and its year) of the first dated column
+ */
+function isoWeekOfColumns(columns: DayColumn[]): { week: number; year: number } | null {
+  const dated = columns.find(({ date }) => date);
+  return dated ? isoWeek(dated.date) : null;
+}
+
+/**
+ * Move the dates of the day columns from one week to a later one; after the last
+ * week of the year the week numbers start again at 1
+ */
+function shiftDayColumns(columns: DayColumn[], fromWeek: number, toWeek: number, rowIndex: number, context: ScheduleParseContext): DayColumn[] {
+  const { result, diagnostics } = context;
+  const previous = isoWeekOfColumns(columns);
+  const weeksInYear = previous ? isoWeeksInYear(previous.year) : 52;
+  const weeks = toWeek > fromWeek ? toWeek - fromWeek : toWeek + weeksInYear - fromWeek;
+  
+  const shifted = columns.map(column => ({ ...column, date: column.date && addDays(column.date, weeks * 7) }));
+  shifted.forEach(({ date }) => {
+    if (date && !result.days.has(date)) {
+      result.days.set(date, []);
+    }
+  });
+  
+  addDiagnostic(diagnostics, {
+    level: 'info',
+    category: 'column',
+    row: rowIndex + 1,
+    message: `Week ${toWeek} heeft geen eigen dagenrij; datums afgeleid van week ${fromWeek} (${shifted.map(({ date }) => date).filter(Boolean).join(', ')})`
+  });
+  return shifted;
 }
 
 /**
- * Parse a CSV row considering commas within quotes
+ * Read a list: a header row and one program per row with its date, start time and title
  */
-function parseCsvRow(line: string): string[] {
-  const result: string[] = [];
-  let cell = '';
-  let inQuotes = false;
+function parseList(rows: string[][], context: ScheduleParseContext): void {
+  const { result, diagnostics } = context;
+  const header = findScheduleListHeader(rows)!;
+  const { columns } = header;
+  const cell = (row: string[], field: ScheduleListField) => {
+    const index = columns[field];
+    return index !== undefined ? (row[index] || '').trim() : '';
+  };
+  
+  addDiagnostic(diagnostics, {
+    level: 'info',
+    category: 'column',
+    row: header.rowIndex + 1,
+    message: `Kolommen: ${(Object.keys(columns) as ScheduleListField[]).map(field => `${field} (kolom ${columns[field]! + 1})`).join('; ')}`
+  });
   
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
+  // A list by broadcast date runs on past midnight on the same date: a time before
+  // the start hour listed after a later time of that date (00:30 after 23:30)
+  let latest: { date: string; minutes: number } | null = null;
+  
+  for (let rowIndex = header.rowIndex + 1; rowIndex < rows.length; rowIndex++) {
+    const row = rows[rowIndex];
+    if (!row.some(value => value !== '')) continue;
+    
+    const title = cell(row, 'title');
+    const timeCell = cell(row, 'startTime');
+    const date = normalizeDate(cell(row, 'date'), { defaultYear: result.year });
+    const clockMinutes = parseTimeMinutes(timeCell);
+    
+    if (!date || !title || clockMinutes === null) {
+      addDiagnostic(diagnostics, {
+        level: 'warning',
+        category: 'skipped-row',
+        row: rowIndex + 1,
+        message: !date
+          ? `Datum "${cell(row, 'date')}" kon niet worden gelezen; rij overgeslagen`
+          : !title ? 'Geen titel; rij overgeslagen' : `Tijd "${timeCell}" kon niet worden gelezen; rij overgeslagen`
+      });
+      continue;
+    }
     
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(cell.trim());
-      cell = '';
-    } else {
-      cell += char;
+    if (!latest || latest.date !== date) {
+      latest = { date, minutes: clockMinutes };
+    }
+    const afterMidnight = clockMinutes < context.startHour * MINUTES_PER_HOUR && clockMinutes < latest.minutes;
+    const minutes = afterMidnight ? clockMinutes + HOURS_PER_DAY * MINUTES_PER_HOUR : clockMinutes;
+    latest.minutes = Math.max(latest.minutes, clockMinutes);
+    
+    const program = createScheduledProgram(context, title, date, minutes, timeCell, isoWeek(date)?.week);
+    
+    // Columns of the list win over what the title suggests
+    const endTime = cell(row, 'endTime');
+    if (isTimeCell(endTime) || /^\d{1,2}:\d{2}:\d{2}$/.test(endTime)) {
+      program.endTime = normalizeTimeFormat(endTime);
+    }
+    const duration = parseInt(cell(row, 'duration'), 10);
+    if (!isNaN(duration) && duration > 0) {
+      program.duration = duration;
     }
+    // Category, genre and repeat flag of the list win over the category rules
+    const category = cell(row, 'category');
+    if (category) {
+      program.fileClassification!.category = category;
+    }
+    const genre = cell(row, 'genre');
+    if (genre) {
+      program.fileClassification!.genre = genre;
+    }
+    const repeat = cell(row, 'repeat');
+    if (/^(ja|j|x|yes|y|1|true|herhaling)$/i.test(repeat)) {
+      program.fileClassification!.isRepeat = true;
+    } else if (/^(nee|n|no|0|false)$/i.test(repeat)) {
+      program.fileClassification!.isRepeat = false;
+    }
+    
+    addProgram(context, program);
   }
+}
+
+/**
+ * Create a program at a time on a date of the file (minutes after midnight, past
+ * 24:00 for the night after), placed on its broadcast day
+ */
+function createScheduledProgram(
+  context: ScheduleParseContext,
+  programTitle: string,
+  date: string,
+  minutes: number,
+  originalTime: string,
+  week?: number
+): ProgramData {
+  const placed = toBroadcastMinute(date, minutes, context.startHour);
+  if (placed.date !== date && minutes < context.startHour * MINUTES_PER_HOUR) {
+    context.movedPrograms++;
+  }
+  
+  const program = createProgram(programTitle, normalizeTimeFormat(originalTime), placed.date, originalTime, week);
+  program.startMinute = placed.minute;
+  return program;
+}
+
+/**
+ * Create a program entry from a cell: the title may carry its duration ("(25)" or
+ * "50 min") or a time point. Category, genre and repeat flag come from the category
+ * rules once the schedule is read.
+ */
+function createProgram(programTitle: string, startTime: string, date: string, originalTime: string, week?: number): ProgramData {
+  const program: ProgramData = {
+    title: cleanProgramTitle(programTitle),
+    startTime,
+    day: date,
+    dayOfWeek: getDayOfWeek(date),
+    originalTime, // Store original time for debugging
+    week,
+    fileClassification: {} // A list can fill this from its columns
+  };
   
-  // Add the last cell
-  result.push(cell.trim());
+  // Parse duration from different formats
+  // Format 1: Number in parentheses, e.g. "Title (25)"
+  const durationMatch1 = programTitle.match(/\((\d+)\)/);
+  if (durationMatch1) {
+    program.duration = parseInt(durationMatch1[1], 10);
+  }
   
-  return result;
+  // Format 2: Duration at the end, e.g. "Title 50 min"
+  const durationMatch2 = programTitle.match(/(\d+)\s*(?:min|minutes|minuten)$/i);
+  if (!program.duration && durationMatch2) {
+    program.duration = parseInt(durationMatch2[1], 10);
+  }
+  
+  // Format 3: Specific time mentioned, e.g. "0.36" or "1.4" or "2.13"
+  const timePointMatch = programTitle.match(/\b(\d+)[,.](\d{1,2})\b/);
+  if (!program.duration && timePointMatch) {
+    // This might be a time point rather than a duration; store it for reference
+    program.timePoint = `${timePointMatch[1].padStart(2, '0')}:${timePointMatch[2].padStart(2, '0')}`;
+  }
+  
+  return program;
+}
+
+/**
+ * Add a program to its day; calculateEndTimes numbers the programs that share a time slot
+ */
+function addProgram(context: ScheduleParseContext, program: ProgramData): void {
+  const { days } = context.result;
+  if (!days.has(program.day!)) {
+    days.set(program.day!, []);
+  }
+  days.get(program.day!)!.push(program);
 }
 
 /**
@@ -349,51 +758,26 @@ function normalizeTimeFormat(timeStr: string): string {
 }
 
 /**
- * Format a date string to DD-MM-YYYY format
+ * Format a date string to DD-MM-YYYY format; empty (and reported) if it is not a date
  */
-function formatDateString(dateStr: string, year: number): string {
-  if (!dateStr) return '';
-  
-  dateStr = dateStr.trim();
-  
-  // If it's already in DD-MM-YYYY format
-  if (/^\d{1,2}-\d{1,2}-\d{4}$/.test(dateStr)) {
-    // Ensure day and month are padded with zeros
-    const [day, month, yearPart] = dateStr.split('-');
-    return `${day.padStart(2, '0')}-${month.padStart(2, '0')}-${yearPart}`;
-  }
+function formatDateString(
+  dateStr: string,
+  year: number,
+  diagnostics?: ImportDiagnostics,
+  rowNumber?: number
+): string {
+  if (!dateStr || !dateStr.trim()) return '';
   
-  // If it's in DD-MM format
-  if (/^\d{1,2}-\d{1,2}$/.test(dateStr)) {
-    const [day, month] = dateStr.split('-');
-    return `${day.padStart(2, '0')}-${month.padStart(2, '0')}-${year}`;
-  }
-  
-  // If it's in DD-Month format (e.g., "25-Dec")
-  const monthMatch = dateStr.match(/^(\d{1,2})-([A-Za-z]{3,})$/);
-  if (monthMatch) {
-    const day = monthMatch[1].padStart(2, '0');
-    const monthName = monthMatch[2].toLowerCase();
-    
-    // Convert month name to number
-    const monthMap: Record<string, string> = {
-      'jan': '01', 'feb': '02', 'mrt': '03', 'mar': '03',
-      'apr': '04', 'mei': '05', 'may': '05', 'jun': '06',
-      'jul': '07', 'aug': '08', 'sep': '09', 'okt': '10',
-      'oct': '10', 'nov': '11', 'dec': '12'
-    };
-    
-    const monthNumber = monthMap[monthName.substring(0, 3)] || '01';
-    return `${day}-${monthNumber}-${year}`;
-  }
-  
-  // If it's just the day
-  const dayMatch = dateStr.match(/^(\d{1,2})$/);
-  if (dayMatch) {
-    return `${dayMatch[1].padStart(2, '0')}-01-${year}`;
+  const date = normalizeDate(dateStr, { defaultYear: year });
+  if (!date) {
+    addDiagnostic(diagnostics, {
+      level: 'warning',
+      category: 'skipped-row',
+      row: rowNumber,
+      message: `Datum "${dateStr.trim()}" kon niet worden gelezen; kolom overgeslagen`
+    });
   }
-  
-  return `01-01-${year}`;
+  return date;
 }
 
 /**
@@ -461,7 +845,9 @@ function isLikelyDate(str: string): boolean {
 /**
  * Calculate end times for all programs
  */
-function calculateEndTimes(data: ScheduleData): void {
+function calculateEndTimes(data: ScheduleData, diagnostics?: ImportDiagnostics): void {
+  const startHour = getDayStartHour(data);
+  
   data.days.forEach((programs, date) => {
     // First, handle multiple programs at same time slot by adding sequence numbers
     // Group by week and time
@@ -497,8 +883,8 @@ function calculateEndTimes(data: ScheduleData): void {
       const weekB = b.week || 0;
       if (weekA !== weekB) return weekA - weekB;
       
-      // Then by time
-      const timeComparison = a.startTime.localeCompare(b.startTime);
+      // Then by time in the broadcast day, so programs after midnight come last
+      const timeComparison = programStartMinute(a, startHour) - programStartMinute(b, startHour);
       if (timeComparison !== 0) return timeComparison;
       
       // Then by sequence
@@ -518,6 +904,12 @@ function calculateEndTimes(data: ScheduleData): void {
         // For multiple programs at same time, set a default duration if not specified
         if (!currentProgram.duration) {
           currentProgram.duration = 15; // Default duration for multi-program slots (minutes)
+          addDiagnostic(diagnostics, {
+            level: 'info',
+            category: 'fallback',
+            date,
+            message: `"${currentProgram.title}" om ${currentProgram.startTime} deelt het tijdslot; standaardduur van 15 minuten gebruikt`
+          });
           
           // Calculate end time based on this duration
           const [startHour, startMinute] = currentProgram.startTime.split(':').map(Number);
@@ -532,8 +924,10 @@ function calculateEndTimes(data: ScheduleData): void {
           currentProgram.endTime = `${endHour.toString().padStart(2, '0')}:${endMinute.toString().padStart(2, '0')}`;
         }
       } else {
-        // Normal case - this program ends when the next one starts
-        currentProgram.endTime = nextProgram.startTime;
+        // Normal case - this program ends when the next one starts, unless the file gives an end time
+        if (!currentProgram.endTime) {
+          currentProgram.endTime = nextProgram.startTime;
+        }
         
         // Calculate duration if not already set
         if (!currentProgram.duration && currentProgram.startTime && currentProgram.endTime) {
@@ -567,6 +961,12 @@ function calculateEndTimes(data: ScheduleData): void {
       } else if (!lastProgram.duration && !lastProgram.endTime) {
         // Default duration of 60 minutes if not specified
         lastProgram.duration = 60;
+        addDiagnostic(diagnostics, {
+          level: 'info',
+          category: 'fallback',
+          date,
+          message: `Laatste programma "${lastProgram.title}" heeft geen duur; 60 minuten aangenomen`
+        });
         
         const [startHour, startMinute] = lastProgram.startTime.split(':').map(Number);
         let endHour = (startHour + 1) % 24; // Default 1 hour duration
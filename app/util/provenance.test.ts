@@ -0,0 +1,16 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ageGroupOrigin } from './provenance';
+
+describe('ageGroupOrigin', () => {
+  test('tells measured, estimated and mixed age groups apart', () => {
+    const month = { measuredAgeGroups: ['viewers13Plus' as const, 'viewers50Plus' as const], estimatedAgeGroups: ['viewers50Plus' as const, 'viewers65Plus' as const] };
+    assert.equal(ageGroupOrigin(month, 'viewers13Plus'), 'measured');
+    assert.equal(ageGroupOrigin(month, 'viewers50Plus'), 'mixed');
+    assert.equal(ageGroupOrigin(month, 'viewers65Plus'), 'estimated');
+  });
+
+  test('returns null for data without age groups', () => {
+    assert.equal(ageGroupOrigin({}, 'viewers13Plus'), null);
+  });
+});
@@ -0,0 +1,130 @@
+import { AgeGroupKey, DailyData, DataSource, HourSource, ProcessedMonthData, ValueOrigin } from '../types';
+
+export const VALUE_ORIGIN_LABELS: Record<ValueOrigin | 'mixed', string> = {
+  file: 'Uit kolom "Kijkcijfers per programma"',
+  computed: 'Berekend als TOTAL × Dagcijfers',
+  mixed: 'Deels uit het bestand, deels berekend'
+};
+
+// Where the numbers of an age group come from: a Kdh% column of the file, the
+// simulated distribution, or the one on some days and the other on others
+export type AgeGroupOrigin = 'measured' | 'estimated' | 'mixed';
+
+export const AGE_GROUP_ORIGIN_LABELS: Record<AgeGroupOrigin, string> = {
+  measured: 'Gemeten (Kdh%)',
+  estimated: 'GESCHAT (simulatie)',
+  mixed: 'Deels gemeten, deels GESCHAT'
+};
+
+// Characters of the hash shown in tooltips
+const SHORT_HASH_LENGTH = 12;
+
+/**
+ * FNV-1a over the bytes, for environments without Web Crypto (e.g. pages served over plain http)
+ */
+function fnv1a(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv1a-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Content hash of a file: SHA-256 in hex, so the same file can be recognised later
+ */
+export async function hashContents(contents: ArrayBuffer): Promise<string> {
+  const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+  if (!subtle) return fnv1a(new Uint8Array(contents));
+
+  const digest = await subtle.digest('SHA-256', contents);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Combine the rows and origins of the slots that make up one hour
+ */
+export function combineSources(sources: HourSource[]): HourSource {
+  const rows = sources.reduce<number[]>((all, source) => all.concat(source.rows), []);
+  const origins = sources.map(source => source.origin).filter((origin): origin is ValueOrigin | 'mixed' => !!origin);
+
+  if (origins.length === 0) return { rows };
+  return { rows, origin: origins.every(origin => origin === origins[0]) ? origins[0] : 'mixed' };
+}
+
+/**
+ * Format an ISO timestamp as DD-MM-YYYY HH:MM in local time
+ */
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return timestamp;
+
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(date.getDate())}-${pad(date.getMonth() + 1)}-${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Tooltip lines for the file a value was imported from
+ */
+export function describeSource(source: DataSource | undefined): string[] {
+  if (!source) return ['Bron onbekend (geïmporteerd vóór de bronregistratie)'];
+
+  const lines = [`Bestand: ${source.fileName}${source.sheetName ? `, blad ${source.sheetName}` : ''}`];
+  lines.push(`Geïmporteerd: ${formatTimestamp(source.importedAt)}`);
+  if (source.fileHash) {
+    lines.push(`Hash: ${source.fileHash.slice(0, SHORT_HASH_LENGTH)}`);
+  }
+  return lines;
+}
+
+/**
+ * Tooltip lines for one hour of a day: the file, the rows and how the value was obtained
+ */
+export function describeHourSource(day: DailyData, hourIndex: number): string[] {
+  const lines = describeSource(day.source);
+  const hourSource = day.hourlySources?.[hourIndex];
+  if (!hourSource) return lines;
+
+  if (hourSource.rows.length === 1) {
+    lines.push(`Rij ${hourSource.rows[0]}`);
+  } else if (hourSource.rows.length > 1) {
+    lines.push(`Rijen ${hourSource.rows.join(', ')}`);
+  } else {
+    lines.push('Geen rij in het bestand');
+  }
+  if (hourSource.origin) {
+    lines.push(VALUE_ORIGIN_LABELS[hourSource.origin]);
+  }
+  return lines;
+}
+
+/**
+ * Tooltip lines for a value made up of several days, e.g. an average per hour
+ */
+export function describeDaysSources(days: DailyData[]): string[] {
+  const fileNames = days
+    .map(day => day.source?.fileName)
+    .filter((fileName, index, all): fileName is string => !!fileName && all.indexOf(fileName) === index);
+
+  const lines = [`Over ${days.length} dagen`];
+  if (fileNames.length > 0) {
+    lines.push(`Bestanden: ${fileNames.join(', ')}`);
+  }
+  return lines;
+}
+
+/**
+ * Where the numbers of an age group in a month come from, or null when the month
+ * has no numbers for it
+ */
+export function ageGroupOrigin(
+  data: Pick<ProcessedMonthData, 'measuredAgeGroups' | 'estimatedAgeGroups'>,
+  key: AgeGroupKey
+): AgeGroupOrigin | null {
+  const measured = (data.measuredAgeGroups || []).includes(key);
+  const estimated = (data.estimatedAgeGroups || []).includes(key);
+  if (measured && estimated) return 'mixed';
+  if (measured) return 'measured';
+  return estimated ? 'estimated' : null;
+}
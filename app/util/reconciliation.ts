@@ -0,0 +1,61 @@
+import { DailyData, DayReconciliation, ProcessedMonthData, ReconciliationTolerances } from '../types';
+
+// Rounding of the hourly values and percentages in the files stays well within these
+export const DEFAULT_RECONCILIATION_TOLERANCES: ReconciliationTolerances = {
+  viewers: 0.02,
+  percentageSum: 0.02
+};
+
+/**
+ * Compare the hours of a day with its Dagcijfers total: the hourly viewers should add
+ * up to the total and the hourly percentages to 100%
+ */
+export function reconcileDay(day: DailyData, tolerances: ReconciliationTolerances = DEFAULT_RECONCILIATION_TOLERANCES): DayReconciliation {
+  const hourlyTotal = day.hourlyViewers.reduce((sum, viewers) => sum + viewers, 0);
+  const percentageSum = day.hourlyPercentages.reduce((sum, percentage) => sum + percentage, 0);
+  const viewersDeviation = day.totalViewers > 0 ? (hourlyTotal - day.totalViewers) / day.totalViewers : 0;
+
+  return {
+    date: day.date,
+    dailyTotal: day.totalViewers,
+    hourlyTotal,
+    viewersDeviation,
+    percentageSum,
+    viewersFlagged: Math.abs(viewersDeviation) > tolerances.viewers,
+    percentagesFlagged: Math.abs(percentageSum - 1) > tolerances.percentageSum
+  };
+}
+
+/**
+ * Days of a month that fall outside the tolerances
+ */
+export function findFlaggedDays(
+  data: ProcessedMonthData,
+  tolerances: ReconciliationTolerances = DEFAULT_RECONCILIATION_TOLERANCES
+): DayReconciliation[] {
+  return data.days
+    .map(day => reconcileDay(day, tolerances))
+    .filter(result => result.viewersFlagged || result.percentagesFlagged);
+}
+
+/**
+ * Format a fraction as a percentage with one decimal, e.g. "+2,5%"
+ */
+export function formatDeviation(fraction: number, signed: boolean = true): string {
+  const percentage = (fraction * 100).toLocaleString('nl-NL', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+  return `${signed && fraction > 0 ? '+' : ''}${percentage}%`;
+}
+
+/**
+ * Describe why a day was flagged
+ */
+export function describeReconciliation(result: DayReconciliation): string {
+  const reasons: string[] = [];
+  if (result.viewersFlagged) {
+    reasons.push(`som van de uren ${result.hourlyTotal.toLocaleString('nl-NL')} wijkt ${formatDeviation(result.viewersDeviation)} af van Dagcijfers ${result.dailyTotal.toLocaleString('nl-NL')}`);
+  }
+  if (result.percentagesFlagged) {
+    reasons.push(`som van de percentages is ${formatDeviation(result.percentageSum, false)} in plaats van 100%`);
+  }
+  return reasons.join('; ');
+}
@@ -0,0 +1,106 @@
+import { ScheduleLayout } from '../types';
+
+export const SCHEDULE_LAYOUT_LABELS: Record<ScheduleLayout, string> = {
+  'week-grid': 'weekrooster',
+  'multi-week-grid': 'rooster met meerdere weken',
+  'list': 'lijst met één programma per rij'
+};
+
+export const DAY_NAMES = ['maandag', 'dinsdag', 'woensdag', 'donderdag', 'vrijdag', 'zaterdag', 'zondag'];
+
+export type ScheduleListField = 'date' | 'startTime' | 'endTime' | 'title' | 'duration' | 'category' | 'genre' | 'repeat';
+
+// Header texts of the columns of a list schedule (lower case); date, start time and title are required
+export const SCHEDULE_LIST_COLUMNS: Record<ScheduleListField, string[]> = {
+  date: ['datum', 'date', 'uitzenddatum'],
+  startTime: ['begintijd', 'starttijd', 'aanvang', 'tijd', 'start', 'time', 'start time'],
+  endTime: ['eindtijd', 'einde', 'eind', 'end', 'end time'],
+  title: ['titel', 'programma', 'programmanaam', 'title', 'program'],
+  duration: ['duur', 'lengte', 'duration', 'minuten'],
+  category: ['categorie', 'category'],
+  genre: ['genre'],
+  repeat: ['herhaling', 'herh', 'repeat']
+};
+
+// Rows at the top of a schedule in which the header is expected
+const SCHEDULE_HEADER_ROWS = 5;
+
+// Rows searched for the header of a list schedule; exports may start with a title block
+const LIST_HEADER_ROWS = 10;
+
+const TIME_CELL = /^\d{1,2}([,.:]\d{2})$/;
+const WEEK_NUMBER_CELL = /^\d{1,2}$/;
+const WEEK_LABEL_CELL = /^(week|wk)\.?\s*(\d{1,2})$/i;
+
+const cellText = (cell: unknown) => String(cell ?? '').trim();
+
+/**
+ * Whether a cell holds the start time of a row in a grid, e.g. "20:00" or "8,00"
+ */
+export function isTimeCell(cell: unknown): boolean {
+  return TIME_CELL.test(cellText(cell));
+}
+
+/**
+ * Whether a row names at least two days of the week, like the header of a grid
+ */
+export function isDayHeaderRow(row: unknown[]): boolean {
+  const cells = row.map(cell => cellText(cell).toLowerCase());
+  return DAY_NAMES.filter(day => cells.some(cell => cell.includes(day))).length >= 2;
+}
+
+/**
+ * The week number a row announces: a row with only a number (1-53) in its first
+ * cell, or a "Week 12" label. Null for any other row.
+ */
+export function weekMarker(row: unknown[]): number | null {
+  const cells = row.map(cellText);
+  const filled = cells.filter(cell => cell !== '');
+  if (filled.length === 0) return null;
+
+  const label = filled.length === 1 ? filled[0].match(WEEK_LABEL_CELL) : null;
+  const number = label
+    ? parseInt(label[2], 10)
+    : WEEK_NUMBER_CELL.test(cells[0]) && filled.length === 1 ? parseInt(cells[0], 10) : NaN;
+
+  return number >= 1 && number <= 53 ? number : null;
+}
+
+/**
+ * Find the header of a list schedule: the row and the column of every field found
+ */
+export function findScheduleListHeader(rows: unknown[][]): { rowIndex: number; columns: Partial<Record<ScheduleListField, number>> } | null {
+  for (let rowIndex = 0; rowIndex < Math.min(LIST_HEADER_ROWS, rows.length); rowIndex++) {
+    const cells = rows[rowIndex].map(cell => cellText(cell).toLowerCase());
+    const columns: Partial<Record<ScheduleListField, number>> = {};
+
+    (Object.keys(SCHEDULE_LIST_COLUMNS) as ScheduleListField[]).forEach(field => {
+      const index = cells.findIndex((cell, cellIndex) =>
+        SCHEDULE_LIST_COLUMNS[field].includes(cell) && !Object.values(columns).includes(cellIndex)
+      );
+      if (index !== -1) {
+        columns[field] = index;
+      }
+    });
+
+    if (columns.date !== undefined && columns.startTime !== undefined && columns.title !== undefined) {
+      return { rowIndex, columns };
+    }
+  }
+  return null;
+}
+
+/**
+ * Detect how a schedule is laid out from its rows; null when it does not look like a schedule
+ */
+export function detectScheduleLayout(rows: unknown[][]): ScheduleLayout | null {
+  const firstHeader = rows.slice(0, SCHEDULE_HEADER_ROWS).findIndex(isDayHeaderRow);
+  if (firstHeader !== -1) {
+    // Several weeks: the day header repeats per week, or week numbers divide the rows
+    const headers = rows.filter(isDayHeaderRow).length;
+    const weeks = rows.map(weekMarker).filter((week, index, all) => week !== null && all.indexOf(week) === index).length;
+    return headers > 1 || weeks > 1 ? 'multi-week-grid' : 'week-grid';
+  }
+
+  return findScheduleListHeader(rows) ? 'list' : null;
+}
@@ -0,0 +1,73 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScheduleData } from '../types';
+import { parseViewerText } from './excelProcessor';
+import { parseScheduleText } from './programScheduleParser';
+import { loadProgramData, mergeScheduleData, mergeViewerAndProgramData, saveProgramData } from './storage';
+
+const VIEWER_CSV = [
+  'Datum;Dag;Tijdvak;Dagcijfers;TOTAL;Kijkcijfers per programma',
+  '04-03-2024;maandag;20:00-20:59;100000;10;9500'
+].join('\n');
+
+// The local storage of the browser, kept in memory
+const storedItems = new Map<string, string>();
+Object.assign(globalThis, {
+  localStorage: {
+    getItem: (key: string) => storedItems.get(key) ?? null,
+    setItem: (key: string, value: string) => storedItems.set(key, value),
+    removeItem: (key: string) => storedItems.delete(key)
+  }
+});
+
+function schedule(rows: string[], broadcastDayStartHour?: number): ScheduleData {
+  return parseScheduleText(['Datum;Begintijd;Titel', ...rows].join('\n'), 'lijst.csv', { broadcastDayStartHour }).data;
+}
+
+function titles(data: ScheduleData, date: string): string[] {
+  return (data.days.get(date) || []).map(program => program.title);
+}
+
+describe('saveProgramData', () => {
+  test('keeps the broadcast day start, layout and programs of the schedule', () => {
+    const saved = schedule(['04-03-2024;01:30;Nacht'], 0);
+    saveProgramData(saved);
+
+    const loaded = loadProgramData()!;
+    assert.equal(loaded.broadcastDayStartHour, 0);
+    assert.equal(loaded.layout, 'list');
+    assert.deepEqual(loaded.days.get('04-03-2024'), saved.days.get('04-03-2024'));
+  });
+});
+
+describe('mergeScheduleData', () => {
+  test('keeps the stored days and replaces the programs within the imported times', () => {
+    const stored = schedule(['04-03-2024;20:00;Journaal', '05-03-2024;20:00;Sport']);
+    const merged = mergeScheduleData(stored, schedule(['05-03-2024;20:00;Film']));
+    assert.deepEqual(titles(merged, '04-03-2024'), ['Journaal']);
+    assert.deepEqual(titles(merged, '05-03-2024'), ['Film']);
+  });
+
+  test('updates the programs of a schedule imported again instead of adding them twice', () => {
+    const stored = schedule(['04-03-2024;18:00;Vroeg', '04-03-2024;20:00;Journaal', '04-03-2024;23:00;Laat']);
+    stored.days.get('04-03-2024')![1].catalogueId = 'journaal';
+
+    const merged = mergeScheduleData(stored, schedule(['04-03-2024;20:00;Journaal']));
+    assert.deepEqual(titles(merged, '04-03-2024'), ['Vroeg', 'Journaal', 'Laat']);
+    assert.equal(merged.days.get('04-03-2024')![1].catalogueId, 'journaal');
+  });
+
+  test('returns the import when no schedule is stored', () => {
+    const incoming = schedule(['04-03-2024;20:00;Journaal']);
+    assert.equal(mergeScheduleData(null, incoming), incoming);
+  });
+});
+
+describe('mergeViewerAndProgramData', () => {
+  test('adds the programs to the days with viewer data and leaves the stored months alone', () => {
+    const months = parseViewerText(VIEWER_CSV, 'maart 2024.csv', { broadcastDayStartHour: 2 }).data.map(sheet => sheet.data);
+    const merged = mergeViewerAndProgramData(months, schedule(['04-03-2024;20:00;Journaal', '05-03-2024;20:00;Sport']));
+    assert.deepEqual(merged[0].days.map(day => (day.programs || []).map(program => program.title)), [['Journaal']]);
+    assert.equal(months[0].days[0].programs, undefined);
+  });
+});
@@ -1,8 +1,20 @@
-import { ProcessedMonthData, ScheduleData, ProgramData } from '../types';
+import { ProcessedMonthData, ScheduleData, ProgramData, ImportProfile, ReconciliationTolerances, CalculationMode, ProgramCatalogue, CategoryRule } from '../types';
+import { DEFAULT_BROADCAST_DAY_START_HOUR, getDayStartHour } from './broadcastDay';
+import { mergePrograms } from './programIdentity';
+import { DEFAULT_RECONCILIATION_TOLERANCES } from './reconciliation';
+import { CALCULATION_MODES, DEFAULT_CALCULATION_MODE } from './calculationMode';
+import { DEFAULT_TITLE_RULES, createProgramCatalogue } from './programCatalogue';
+import { DEFAULT_CATEGORY_RULES } from './categoryRules';
 
 // Storage keys
 const VIEWER_DATA_KEY = 'kijkcijfers_data';
 const PROGRAM_DATA_KEY = 'programmering_data';
+const IMPORT_PROFILES_KEY = 'import_profielen';
+const BROADCAST_DAY_START_KEY = 'uitzenddag_beginuur';
+const RECONCILIATION_TOLERANCES_KEY = 'controle_toleranties';
+const CALCULATION_MODE_KEY = 'rekenmethode';
+const PROGRAM_CATALOGUE_KEY = 'programmacatalogus';
+const CATEGORY_RULES_KEY = 'categorieregels';
 
 /**
  * Save processed data to local storage
@@ -11,7 +23,6 @@ export function saveProcessedData(data: ProcessedMonthData[]): void {
   try {
     const serializedData = JSON.stringify(data);
     localStorage.setItem(VIEWER_DATA_KEY, serializedData);
-    console.log(`Saved ${data.length} months of data to local storage`);
   } catch (error) {
     console.error('Error saving data to local storage:', error);
   }
@@ -28,7 +39,6 @@ export function loadProcessedData(): ProcessedMonthData[] {
     }
     
     const data = JSON.parse(serializedData) as ProcessedMonthData[];
-    console.log(`Loaded ${data.length} months of data from local storage`);
     return data;
   } catch (error) {
     console.error('Error loading data from local storage:', error);
@@ -43,7 +53,6 @@ export function clearProcessedData(): void {
   try {
     localStorage.removeItem(VIEWER_DATA_KEY);
     localStorage.removeItem(PROGRAM_DATA_KEY);
-    console.log('All data cleared from local storage');
   } catch (error) {
     console.error('Error clearing data from local storage:', error);
   }
@@ -54,10 +63,14 @@ export function clearProcessedData(): void {
  */
 export function saveProgramData(data: ScheduleData): void {
   try {
-    // Convert Map to object for JSON serialization
+    // Convert Map to object for JSON serialization; the programs keep all their
+    // fields (identifier, catalogue link, category, genre and repeat flag)
     const serializable = {
       weekNumber: data.weekNumber,
       year: data.year,
+      weeks: data.weeks,
+      layout: data.layout,
+      broadcastDayStartHour: data.broadcastDayStartHour,
       days: Array.from(data.days.entries()).reduce((obj, [key, value]) => {
         obj[key] = value;
         return obj;
@@ -66,7 +79,6 @@ export function saveProgramData(data: ScheduleData): void {
     
     const serializedData = JSON.stringify(serializable);
     localStorage.setItem(PROGRAM_DATA_KEY, serializedData);
-    console.log(`Saved program data for week ${data.weekNumber}/${data.year} to local storage`);
   } catch (error) {
     console.error('Error saving program data to local storage:', error);
   }
@@ -90,13 +102,16 @@ export function loadProgramData(): ScheduleData | null {
       days.set(date, programs as ProgramData[]);
     });
     
-    const data = {
+    // Without its start hour a schedule would order its programs across midnight by the clock
+    const data: ScheduleData = {
       weekNumber: parsed.weekNumber,
       year: parsed.year,
+      weeks: parsed.weeks,
+      layout: parsed.layout,
+      broadcastDayStartHour: parsed.broadcastDayStartHour,
       days
     };
     
-    console.log(`Loaded program data for week ${data.weekNumber}/${data.year} from local storage`);
     return data;
   } catch (error) {
     console.error('Error loading program data from local storage:', error);
@@ -104,6 +119,25 @@ export function loadProgramData(): ScheduleData | null {
   }
 }
 
+/**
+ * Add an imported schedule to the stored one; the programs of the imported days
+ * update the stored programs of those days and the other stored days are kept
+ */
+export function mergeScheduleData(stored: ScheduleData | null, incoming: ScheduleData): ScheduleData {
+  if (!stored) return incoming;
+  
+  const startHour = getDayStartHour(incoming);
+  const days = new Map(stored.days);
+  incoming.days.forEach((programs, date) => days.set(date, mergePrograms(days.get(date) || [], programs, startHour)));
+  
+  const weeks = (stored.weeks || [stored.weekNumber]).concat(incoming.weeks || [incoming.weekNumber]);
+  return {
+    ...incoming,
+    weeks: weeks.filter((week, index) => weeks.indexOf(week) === index).sort((a, b) => a - b),
+    days
+  };
+}
+
 /**
  * Merge program data into viewer data
  */
@@ -123,16 +157,181 @@ export function mergeViewerAndProgramData(
       for (const day of monthData.days) {
         // Check if we have program data for this day
         if (programData.days.has(day.date)) {
-          // Add program data to the day
-          day.programs = programData.days.get(day.date) || [];
+          // Add program data to the day, updating programs that were there already
+          day.programs = mergePrograms(day.programs || [], programData.days.get(day.date) || [], getDayStartHour(programData));
         }
       }
     }
     
-    console.log(`Merged program data with ${mergedData.length} months of viewer data`);
     return mergedData;
   } catch (error) {
     console.error('Error merging viewer and program data:', error);
     return viewerData;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Save the user-defined import profiles to local storage
+ */
+export function saveImportProfiles(profiles: ImportProfile[]): void {
+  try {
+    localStorage.setItem(IMPORT_PROFILES_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Error saving import profiles to local storage:', error);
+  }
+}
+
+/**
+ * Load the user-defined import profiles from local storage
+ */
+export function loadImportProfiles(): ImportProfile[] {
+  try {
+    const serializedData = localStorage.getItem(IMPORT_PROFILES_KEY);
+    if (!serializedData) {
+      return [];
+    }
+    
+    return JSON.parse(serializedData) as ImportProfile[];
+  } catch (error) {
+    console.error('Error loading import profiles from local storage:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the hour at which the broadcast day starts
+ */
+export function saveBroadcastDayStartHour(hour: number): void {
+  try {
+    localStorage.setItem(BROADCAST_DAY_START_KEY, hour.toString());
+  } catch (error) {
+    console.error('Error saving broadcast day start hour to local storage:', error);
+  }
+}
+
+/**
+ * Load the hour at which the broadcast day starts (02:00 if not set)
+ */
+export function loadBroadcastDayStartHour(): number {
+  try {
+    const storedHour = localStorage.getItem(BROADCAST_DAY_START_KEY);
+    const hour = storedHour !== null ? parseInt(storedHour, 10) : NaN;
+    return isNaN(hour) ? DEFAULT_BROADCAST_DAY_START_HOUR : hour;
+  } catch (error) {
+    console.error('Error loading broadcast day start hour from local storage:', error);
+    return DEFAULT_BROADCAST_DAY_START_HOUR;
+  }
+}
+
+/**
+ * Save the tolerances used to check the hours against the daily totals
+ */
+export function saveReconciliationTolerances(tolerances: ReconciliationTolerances): void {
+  try {
+    localStorage.setItem(RECONCILIATION_TOLERANCES_KEY, JSON.stringify(tolerances));
+  } catch (error) {
+    console.error('Error saving reconciliation tolerances to local storage:', error);
+  }
+}
+
+/**
+ * Load the reconciliation tolerances (defaults if not set)
+ */
+export function loadReconciliationTolerances(): ReconciliationTolerances {
+  try {
+    const serializedTolerances = localStorage.getItem(RECONCILIATION_TOLERANCES_KEY);
+    if (!serializedTolerances) {
+      return DEFAULT_RECONCILIATION_TOLERANCES;
+    }
+    return { ...DEFAULT_RECONCILIATION_TOLERANCES, ...JSON.parse(serializedTolerances) };
+  } catch (error) {
+    console.error('Error loading reconciliation tolerances from local storage:', error);
+    return DEFAULT_RECONCILIATION_TOLERANCES;
+  }
+}
+
+/**
+ * Save the calculation mode applied to the stored viewer data
+ */
+export function saveCalculationMode(mode: CalculationMode): void {
+  try {
+    localStorage.setItem(CALCULATION_MODE_KEY, mode);
+  } catch (error) {
+    console.error('Error saving calculation mode to local storage:', error);
+  }
+}
+
+/**
+ * Load the calculation mode (file values if not set)
+ */
+export function loadCalculationMode(): CalculationMode {
+  try {
+    const storedMode = localStorage.getItem(CALCULATION_MODE_KEY) as CalculationMode | null;
+    return storedMode && CALCULATION_MODES.includes(storedMode) ? storedMode : DEFAULT_CALCULATION_MODE;
+  } catch (error) {
+    console.error('Error loading calculation mode from local storage:', error);
+    return DEFAULT_CALCULATION_MODE;
+  }
+}
+
+/**
+ * Save the program catalogue with its normalisation rules
+ */
+export function saveProgramCatalogue(catalogue: ProgramCatalogue): void {
+  try {
+    localStorage.setItem(PROGRAM_CATALOGUE_KEY, JSON.stringify(catalogue));
+  } catch (error) {
+    console.error('Error saving program catalogue to local storage:', error);
+  }
+}
+
+/**
+ * Load the program catalogue (empty with the default rules if not set); default
+ * rules added since it was saved are included
+ */
+export function loadProgramCatalogue(): ProgramCatalogue {
+  try {
+    const serializedCatalogue = localStorage.getItem(PROGRAM_CATALOGUE_KEY);
+    if (!serializedCatalogue) {
+      return createProgramCatalogue();
+    }
+    
+    const catalogue = JSON.parse(serializedCatalogue) as ProgramCatalogue;
+    const rules = catalogue.rules || [];
+    const missingRules = DEFAULT_TITLE_RULES.filter(rule => !rules.some(stored => stored.id === rule.id));
+    return { rules: rules.concat(missingRules), programs: catalogue.programs || [] };
+  } catch (error) {
+    console.error('Error loading program catalogue from local storage:', error);
+    return createProgramCatalogue();
+  }
+}
+
+/**
+ * Save the rules that categorise the programs
+ */
+export function saveCategoryRules(rules: CategoryRule[]): void {
+  try {
+    localStorage.setItem(CATEGORY_RULES_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.error('Error saving category rules to local storage:', error);
+  }
+}
+
+/**
+ * Load the category rules (the default rules if not set); default rules added
+ * since they were saved are included
+ */
+export function loadCategoryRules(): CategoryRule[] {
+  try {
+    const serializedRules = localStorage.getItem(CATEGORY_RULES_KEY);
+    if (!serializedRules) {
+      return DEFAULT_CATEGORY_RULES;
+    }
+    
+    const rules = JSON.parse(serializedRules) as CategoryRule[];
+    return rules.concat(DEFAULT_CATEGORY_RULES.filter(rule => !rules.some(stored => stored.id === rule.id)));
+  } catch (error) {
+    console.error('Error loading category rules from local storage:', error);
+    return DEFAULT_CATEGORY_RULES;
+  }
+}
@@ -0,0 +1,106 @@
+import { ImportProgress, ImportResult, SheetImport, ViewerColumnDetection } from '../types';
+import { ViewerProcessingOptions, processExcelFile } from './excelProcessor';
+import { ColumnMappingRequiredError } from './importProfiles';
+
+// Options that can be sent to the worker; callbacks and reports stay on this side
+export type WorkerViewerOptions = Pick<
+  ViewerProcessingOptions,
+  'estimateMissingAgeGroups' | 'profile' | 'columnMapping' | 'columnMappings' | 'broadcastDayStartHour' | 'reconciliationTolerances' | 'calculationMode'
+>;
+
+export interface ViewerImportRequest {
+  contents: ArrayBuffer;
+  fileName: string;
+  options: WorkerViewerOptions;
+}
+
+export type ViewerImportResponse =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'result'; result: ImportResult<SheetImport[]> }
+  | { type: 'mapping-required'; detection: ViewerColumnDetection }
+  | { type: 'error'; message: string };
+
+/**
+ * Thrown when the user cancels an import that is still running
+ */
+export class ImportCancelledError extends Error {
+  constructor(fileName: string) {
+    super(`Import van ${fileName} geannuleerd`);
+    this.name = 'ImportCancelledError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ImportCancelledError.prototype);
+  }
+}
+
+export interface ViewerImportTask {
+  promise: Promise<ImportResult<SheetImport[]>>;
+  cancel: () => void;
+}
+
+/**
+ * Parse a viewer data file in a Web Worker so the page stays responsive.
+ * Falls back to the main thread where workers are not available.
+ */
+export function startViewerImport(
+  file: File,
+  options: WorkerViewerOptions,
+  onProgress?: (progress: ImportProgress) => void
+): ViewerImportTask {
+  if (typeof Worker === 'undefined') {
+    let cancelled = false;
+    const promise = processExcelFile(file, { ...options, onProgress }).then(result => {
+      if (cancelled) throw new ImportCancelledError(file.name);
+      return result;
+    });
+    return { promise, cancel: () => { cancelled = true; } };
+  }
+
+  const worker = new Worker(new URL('../workers/viewerImport.worker.ts', import.meta.url));
+  let rejectImport: (reason: Error) => void = () => {};
+
+  const promise = new Promise<ImportResult<SheetImport[]>>((resolve, reject) => {
+    rejectImport = reject;
+
+    worker.onmessage = (event: MessageEvent<ViewerImportResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          return;
+        case 'result':
+          resolve(message.result);
+          break;
+        case 'mapping-required':
+          reject(new ColumnMappingRequiredError(message.detection));
+          break;
+        case 'error':
+          reject(new Error(message.message));
+          break;
+      }
+      worker.terminate();
+    };
+
+    worker.onerror = (event) => {
+      reject(new Error(event.message || 'Error in import worker'));
+      worker.terminate();
+    };
+
+    file.arrayBuffer()
+      .then(contents => {
+        const request: ViewerImportRequest = { contents, fileName: file.name, options };
+        worker.postMessage(request, [contents]);
+      })
+      .catch(() => {
+        reject(new Error('Error reading file'));
+        worker.terminate();
+      });
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectImport(new ImportCancelledError(file.name));
+    }
+  };
+}
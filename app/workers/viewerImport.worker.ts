@@ -0,0 +1,26 @@
+import { processViewerContents } from '../util/excelProcessor';
+import { ColumnMappingRequiredError } from '../util/importProfiles';
+import type { ViewerImportRequest, ViewerImportResponse } from '../util/viewerImportClient';
+
+// The project is compiled against the DOM library, so type the worker scope by hand
+const workerScope = self as unknown as Worker;
+
+const post = (message: ViewerImportResponse) => workerScope.postMessage(message);
+
+workerScope.onmessage = async (event: MessageEvent<ViewerImportRequest>) => {
+  const { contents, fileName, options } = event.data;
+
+  try {
+    const result = await processViewerContents(contents, fileName, {
+      ...options,
+      onProgress: progress => post({ type: 'progress', progress })
+    });
+    post({ type: 'result', result });
+  } catch (err) {
+    if (err instanceof ColumnMappingRequiredError) {
+      post({ type: 'mapping-required', detection: err.detection });
+    } else {
+      post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+};
@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CalculationMode, ImportDiagnostics, ProcessedMonthData, ProgramData, ScheduleData } from '../app/types';
+import { processViewerContents } from '../app/util/excelProcessor';
+import { parseScheduleContents } from '../app/util/programScheduleParser';
+import { aggregateMonthsData } from '../app/util/dataAggregator';
+import { findDayConflicts, mergeIntoMonths } from '../app/util/dayMerge';
+import { detectTextKind, detectWorkbookKind } from '../app/util/importDetection';
+import { decodeText, isDelimitedTextFile } from '../app/util/delimitedText';
+import { countDiagnostics, DIAGNOSTIC_LEVEL_LABELS } from '../app/util/diagnostics';
+import { findFlaggedDays } from '../app/util/reconciliation';
+import { CALCULATION_MODES } from '../app/util/calculationMode';
+import { DEFAULT_BROADCAST_DAY_START_HOUR, formatBroadcastHour, getDayStartHour } from '../app/util/broadcastDay';
+
+/**
+ * Command line tool built on the same import code as the app, so imports can be
+ * automated and checked without a browser.
+ *
+ *   npm run cli -- ingest <map> [--out data.json] [--start-hour 2] [--mode file|recompute|compare] [--verbose]
+ *   npm run cli -- report <data.json>
+ */
+
+const USAGE = `Gebruik:
+  npm run cli -- ingest <map> [--out <bestand.json>] [--start-hour <uur>] [--mode ${CALCULATION_MODES.join('|')}] [--verbose]
+      Leest alle kijkcijferbestanden (.xlsx, .xls, .csv, .tsv, .txt) en programmaschema's in een map,
+      schrijft de genormaliseerde data als JSON en toont per maand een samenvatting.
+  npm run cli -- report <bestand.json>
+      Toont de samenvatting van eerder ingelezen data.`;
+
+const SUPPORTED_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.tsv', '.txt'];
+
+// Schedules are stored with their days as a plain object, like in the browser storage
+interface SerializedSchedule extends Omit<ScheduleData, 'days'> {
+  fileName: string;
+  days: Record<string, ProgramData[]>;
+}
+
+interface CliOutput {
+  generatedAt: string;
+  months: ProcessedMonthData[];
+  schedules: SerializedSchedule[];
+}
+
+interface IngestOptions {
+  folder: string;
+  out?: string;
+  startHour: number;
+  mode?: CalculationMode;
+  verbose: boolean;
+}
+
+/**
+ * Read the command line arguments of the ingest command
+ */
+function parseIngestArgs(args: string[]): IngestOptions {
+  const options: IngestOptions = { folder: '', startHour: DEFAULT_BROADCAST_DAY_START_HOUR, verbose: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--out') {
+      options.out = args[++i];
+    } else if (arg === '--start-hour') {
+      options.startHour = parseInt(args[++i], 10);
+      if (isNaN(options.startHour) || options.startHour < 0 || options.startHour > 23) {
+        throw new Error(`Ongeldig beginuur: ${args[i]}`);
+      }
+    } else if (arg === '--mode') {
+      const mode = args[++i] as CalculationMode;
+      if (!CALCULATION_MODES.includes(mode)) {
+        throw new Error(`Onbekende rekenmethode: ${args[i]}`);
+      }
+      options.mode = mode;
+    } else if (arg === '--verbose') {
+      options.verbose = true;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Onbekende optie: ${arg}`);
+    } else {
+      options.folder = arg;
+    }
+  }
+
+  if (!options.folder) {
+    throw new Error('Geen map opgegeven');
+  }
+  return options;
+}
+
+/**
+ * The bytes of a file as an ArrayBuffer, the form the parsers take in the browser
+ */
+function readArrayBuffer(filePath: string): ArrayBuffer {
+  const buffer = fs.readFileSync(filePath);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+function serializeSchedule(schedule: ScheduleData, fileName: string): SerializedSchedule {
+  const days: Record<string, ProgramData[]> = {};
+  schedule.days.forEach((programs, date) => {
+    days[date] = programs;
+  });
+  return { ...schedule, fileName, days };
+}
+
+/**
+ * Print the number of diagnostics of a file, and the warnings and errors when asked
+ */
+function printDiagnostics(diagnostics: ImportDiagnostics, verbose: boolean): void {
+  const counts = countDiagnostics(diagnostics);
+  console.log(`  ${counts.error} fouten, ${counts.warning} waarschuwingen, ${counts.info} meldingen`);
+  if (!verbose) return;
+
+  diagnostics.entries
+    .filter(entry => entry.level !== 'info')
+    .forEach(entry => {
+      const location = [entry.sheet, entry.row ? `rij ${entry.row}` : '', entry.date].filter(Boolean).join(', ');
+      console.log(`  ${DIAGNOSTIC_LEVEL_LABELS[entry.level]}${location ? ` (${location})` : ''}: ${entry.message}`);
+    });
+}
+
+/**
+ * One line per month: days, total, peak day and peak hour, and days that fail the reconciliation
+ */
+function printMonthSummaries(months: ProcessedMonthData[]): void {
+  const summarize = (label: string, month: ProcessedMonthData) => {
+    const flaggedDays = findFlaggedDays(month).length;
+    console.log(
+      `${label}: ${month.days.length} dagen, totaal ${month.totalViewers.toLocaleString('nl-NL')} kijkers, ` +
+      `piekdag ${month.peakDay}, piekuur ${formatBroadcastHour(month.peakHour, getDayStartHour(month))}` +
+      (flaggedDays > 0 ? `, ${flaggedDays} dagen wijken af van het dagtotaal` : '')
+    );
+  };
+
+  months.forEach(month => summarize(month.monthYear, month));
+  if (months.length > 1) {
+    const aggregate = aggregateMonthsData(months);
+    summarize('Alle maanden', aggregate);
+    if (aggregate.conflictingDates) {
+      console.log(`  Verschillende cijfers in meer dan één maand (eerste versie gebruikt): ${aggregate.conflictingDates.join(', ')}`);
+    }
+  }
+}
+
+async function ingest(options: IngestOptions): Promise<number> {
+  const fileNames = fs.readdirSync(options.folder)
+    .filter(fileName => SUPPORTED_EXTENSIONS.includes(path.extname(fileName).toLowerCase()))
+    .sort();
+
+  if (fileNames.length === 0) {
+    console.error(`Geen bestanden gevonden in ${options.folder}`);
+    return 1;
+  }
+
+  let months: ProcessedMonthData[] = [];
+  const schedules: SerializedSchedule[] = [];
+  let failures = 0;
+
+  for (const fileName of fileNames) {
+    const filePath = path.join(options.folder, fileName);
+    console.log(fileName);
+
+    try {
+      const contents = readArrayBuffer(filePath);
+      const kind = isDelimitedTextFile(fileName) ? detectTextKind(decodeText(contents).text) : detectWorkbookKind(contents);
+
+      if (kind === 'schedule') {
+        const { data, diagnostics } = parseScheduleContents(contents, fileName, { broadcastDayStartHour: options.startHour });
+        schedules.push(serializeSchedule(data, fileName));
+        console.log(`  Programmaschema: week ${data.weekNumber}/${data.year}, ${data.days.size} dagen`);
+        printDiagnostics(diagnostics, options.verbose);
+        continue;
+      }
+
+      if (kind === 'unknown') {
+        console.log('  Overgeslagen: geen kijkcijfers of programmaschema herkend');
+        continue;
+      }
+
+      const { data: sheets, diagnostics } = await processViewerContents(contents, fileName, {
+        broadcastDayStartHour: options.startHour,
+        calculationMode: options.mode
+      });
+
+      sheets
+        .filter(sheet => sheet.data.days.length > 0)
+        .forEach(sheet => {
+          // Like the app without a choice: conflicting days keep the version read first
+          const conflicts = findDayConflicts(months, sheet.data);
+          months = mergeIntoMonths(months, sheet.data);
+          console.log(
+            `  ${sheet.data.monthYear}: ${sheet.data.days.length} dagen` +
+            (conflicts.length > 0 ? `, ${conflicts.length} dagen met andere cijfers niet overgenomen` : '')
+          );
+        });
+      printDiagnostics(diagnostics, options.verbose);
+    } catch (error) {
+      failures++;
+      console.error(`  Fout: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  console.log('');
+  printMonthSummaries(months);
+
+  if (options.out) {
+    const output: CliOutput = { generatedAt: new Date().toISOString(), months, schedules };
+    fs.writeFileSync(options.out, JSON.stringify(output, null, 2));
+    console.log(`\nGeschreven naar ${options.out}`);
+  }
+
+  return failures > 0 ? 1 : 0;
+}
+
+function report(filePath: string | undefined): number {
+  if (!filePath) {
+    throw new Error('Geen bestand opgegeven');
+  }
+
+  const output: CliOutput = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  printMonthSummaries(output.months || []);
+  (output.schedules || []).forEach(schedule => {
+    console.log(`${schedule.fileName}: week ${schedule.weekNumber}/${schedule.year}, ${Object.keys(schedule.days).length} dagen`);
+  });
+  return 0;
+}
+
+async function main(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+  switch (command) {
+    case 'ingest':
+      return ingest(parseIngestArgs(rest));
+    case 'report':
+      return report(rest[0]);
+    default:
+      console.log(USAGE);
+      return command ? 1 : 0;
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error('');
+    console.error(USAGE);
+    process.exit(1);
+  });